@@ -1,22 +1,49 @@
 // Main application component
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Transport } from './components/Transport/Transport';
 import { Grid } from './components/Grid/Grid';
 import { SynthControls } from './components/SynthControls/SynthControls';
 import { PatternMenu } from './components/PatternMenu/PatternMenu';
+import { SongArranger } from './components/SongArranger/SongArranger';
+import { MuteScenes } from './components/MuteScenes/MuteScenes';
+import { Mixer } from './components/Mixer/Mixer';
 import { usePatternStore } from './store/usePatternStore';
 import { audioEngine } from './synthesis/AudioEngine';
 import { sequencer } from './synthesis/Sequencer';
 import { patternStorage } from './utils/patternStorage';
 import { loadPatternFromURL } from './utils/patternSharing';
+import { buildArrangement } from './utils/songArrangement';
+import { getHitVelocity, getPadTrack, quantizeHit } from './utils/liveRecording';
+import { getSecondsPerStep } from './utils/patternTiming';
+import { getAudibleTracks } from './utils/muteScenes';
 import './App.css';
 
 export const App: React.FC = () => {
-  const { pattern, isPlaying, setCurrentStep, togglePlay } = usePatternStore();
+  const {
+    pattern,
+    isPlaying,
+    playMode,
+    queuedPattern,
+    fillMode,
+    metronome,
+    metronomeVolume,
+    performanceMutes,
+    liveMutes,
+    pendingMutes,
+    muteQuantize,
+    commitPendingMutes,
+    setCurrentStep,
+    advanceRecording,
+    setSongPosition,
+    commitQueuedPattern,
+    togglePlay
+  } = usePatternStore();
   const [currentStep, setLocalCurrentStep] = useState(0);
+  const [trackSteps, setTrackSteps] = useState<number[]>([]);
   const [audioInitialized, setAudioInitialized] = useState(false);
   const [selectedTrackIndex, setSelectedTrackIndex] = useState(0);
+  const [showMixer, setShowMixer] = useState(false);
 
   // Initialize app on mount
   useEffect(() => {
@@ -24,8 +51,10 @@ export const App: React.FC = () => {
       // Initialize IndexedDB
       await patternStorage.init();
 
-      // Load saved patterns
+      // Load saved patterns, songs and grooves
       await usePatternStore.getState().loadSavedPatterns();
+      await usePatternStore.getState().loadSavedSongs();
+      await usePatternStore.getState().loadSavedGrooves();
 
       // Check for pattern in URL
       const urlPattern = loadPatternFromURL();
@@ -49,10 +78,9 @@ export const App: React.FC = () => {
     if (!audioInitialized) {
       await audioEngine.initialize();
 
-      // Initialize synth parameters for all tracks
-      pattern.tracks.forEach(track => {
-        audioEngine.updateSynthParams(track.synthType, track.synthParams);
-      });
+      // One synth per track, seeded before its noise buffers are built
+      audioEngine.setSeed(usePatternStore.getState().pattern.seed);
+      audioEngine.syncTracks(usePatternStore.getState().pattern.tracks);
 
       setAudioInitialized(true);
       console.log('Audio initialized with track parameters');
@@ -70,19 +98,38 @@ export const App: React.FC = () => {
     if (!audioInitialized) return;
 
     if (isPlaying) {
-      sequencer.start(pattern, (step) => {
+      // In song mode, play the arrangement from its first entry
+      const { song, savedPatterns } = usePatternStore.getState();
+      const arrangement = playMode === 'song' ? buildArrangement(song, savedPatterns) : [];
+
+      if (arrangement.length > 0) {
+        setSongPosition(arrangement[0].entryId, arrangement[0].pattern);
+        sequencer.setArrangement(arrangement, (entry) => setSongPosition(entry.entryId, entry.pattern));
+      } else {
+        sequencer.setArrangement(null);
+      }
+
+      sequencer.start(arrangement[0]?.pattern ?? pattern, (step, steps) => {
         setLocalCurrentStep(step);
+        setTrackSteps(steps);
         setCurrentStep(step);
-      });
+
+        // Replace mode clears recorded tracks as the playhead moves on
+        const position = sequencer.getStepPosition(audioEngine.getCurrentTime());
+        if (position !== null && usePatternStore.getState().isRecording) {
+          advanceRecording(position);
+        }
+      }, usePatternStore.getState().countInBars);
     } else {
       sequencer.stop();
       setLocalCurrentStep(0);
+      setTrackSteps([]);
     }
 
     return () => {
       sequencer.stop();
     };
-  }, [isPlaying, audioInitialized]);
+  }, [isPlaying, playMode, audioInitialized]);
 
   // Update sequencer pattern when it changes
   useEffect(() => {
@@ -91,13 +138,132 @@ export const App: React.FC = () => {
     }
   }, [pattern, audioInitialized]);
 
+  // Everything syncTracks reads - step and p-lock edits leave it unchanged
+  const trackSetup = useMemo(
+    () => JSON.stringify(pattern.tracks.map(({ id, synthType, synthParams, inserts, volume, pan, sends }) => (
+      [id, synthType, synthParams, inserts, volume, pan, sends]
+    ))),
+    [pattern.tracks]
+  );
+
+  // Rebuild per-track synths and reapply their settings when the track setup changes
+  useEffect(() => {
+    if (audioInitialized) {
+      audioEngine.syncTracks(usePatternStore.getState().pattern.tracks);
+    }
+  }, [trackSetup, audioInitialized]);
+
+  // Master chain settings travel with the pattern
+  useEffect(() => {
+    if (audioInitialized) {
+      audioEngine.setMasterSettings(pattern.master);
+    }
+  }, [pattern.master, audioInitialized]);
+
+  // Re-apply on tempo changes too, so the delay stays in time
+  useEffect(() => {
+    if (audioInitialized) {
+      audioEngine.setEffects(pattern.effects, pattern.bpm);
+    }
+  }, [pattern.effects, pattern.bpm, audioInitialized]);
+
+  useEffect(() => {
+    if (audioInitialized) {
+      audioEngine.setSidechain(pattern.sidechain);
+    }
+  }, [pattern.sidechain, audioInitialized]);
+
+  // Mute channels too, so tails and sends of silenced tracks stop
+  useEffect(() => {
+    if (!audioInitialized) return;
+    const audible = getAudibleTracks(pattern, performanceMutes ? liveMutes : null);
+    pattern.tracks.forEach((track, i) => audioEngine.setTrackMute(track.id, !audible[i]));
+  }, [pattern.tracks, performanceMutes, liveMutes, audioInitialized]);
+
+  // Hand cued patterns to the sequencer, which switches at the end of the loop
+  useEffect(() => {
+    if (audioInitialized) {
+      sequencer.queuePattern(queuedPattern, commitQueuedPattern);
+    }
+  }, [queuedPattern, audioInitialized]);
+
+  // Reseed synth noise whenever the pattern seed changes
+  useEffect(() => {
+    if (audioInitialized) {
+      audioEngine.setSeed(pattern.seed);
+    }
+  }, [pattern.seed, audioInitialized]);
+
+  // Keep the sequencer's fill state in sync with the transport
+  useEffect(() => {
+    sequencer.setFillMode(fillMode);
+  }, [fillMode]);
+
+  // Performance mutes play over the pattern's own mute/solo without changing it
+  useEffect(() => {
+    sequencer.setMutes(performanceMutes ? liveMutes : null);
+  }, [performanceMutes, liveMutes]);
+
+  // Armed mutes switch on the sequencer's next beat or bar line
+  useEffect(() => {
+    sequencer.queueMutes(pendingMutes, muteQuantize, commitPendingMutes);
+  }, [pendingMutes, muteQuantize]);
+
+  // Metronome clicks are scheduled by the sequencer, their level set on the engine
+  useEffect(() => {
+    sequencer.setMetronome(metronome);
+  }, [metronome]);
+
+  useEffect(() => {
+    if (audioInitialized) {
+      audioEngine.setMetronomeVolume(metronomeVolume);
+    }
+  }, [metronomeVolume, audioInitialized]);
+
+  // Play a pad, writing it into the pattern while recording
+  const handlePadHit = async (trackIndex: number, shiftKey: boolean) => {
+    await initializeAudio();
+
+    const state = usePatternStore.getState();
+    const track = state.pattern.tracks[trackIndex];
+    if (!track) return;
+
+    const velocity = getHitVelocity(state.recordSettings, shiftKey);
+    const time = audioEngine.getCurrentTime();
+    audioEngine.triggerDrum(track.id, track.synthType, velocity, track.synthParams, time);
+
+    const position = state.isRecording ? sequencer.getStepPosition(time) : null;
+    if (position === null) return;
+
+    const hit = quantizeHit(
+      position,
+      track,
+      trackIndex,
+      state.pattern.seed,
+      state.recordSettings.quantize,
+      getSecondsPerStep(state.pattern.bpm, state.pattern.stepResolution)
+    );
+    state.recordHit(trackIndex, hit.stepIndex, velocity, hit.microTiming, position);
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = async (e: KeyboardEvent) => {
       if (e.code === 'Space') {
         e.preventDefault();
         await handlePlayClick();
+        return;
       }
+
+      // Pads stay quiet while typing in a field
+      const target = e.target as HTMLElement;
+      const typing = target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' ||
+        (target instanceof HTMLInputElement && (target.type === 'text' || target.type === 'number'));
+      const trackIndex = getPadTrack(e.code);
+      if (trackIndex === -1 || typing || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      e.preventDefault();
+      await handlePadHit(trackIndex, e.shiftKey);
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -123,13 +289,28 @@ export const App: React.FC = () => {
       </header>
 
       <Transport onPlayClick={handlePlayClick} />
+      <MuteScenes />
 
       <main className="app-main">
-        <Grid
-          currentStep={currentStep}
-          selectedTrackIndex={selectedTrackIndex}
-          onTrackSelect={setSelectedTrackIndex}
-        />
+        <div className="view-tabs">
+          <button className={!showMixer ? 'active' : ''} onClick={() => setShowMixer(false)}>
+            Sequencer
+          </button>
+          <button className={showMixer ? 'active' : ''} onClick={() => setShowMixer(true)}>
+            Mixer
+          </button>
+        </div>
+        {showMixer ? (
+          <Mixer selectedTrackIndex={selectedTrackIndex} onTrackSelect={setSelectedTrackIndex} />
+        ) : (
+          <Grid
+            currentStep={currentStep}
+            trackSteps={trackSteps}
+            selectedTrackIndex={selectedTrackIndex}
+            onTrackSelect={setSelectedTrackIndex}
+          />
+        )}
+        {playMode === 'song' && <SongArranger />}
         <SynthControls selectedTrackIndex={selectedTrackIndex} />
       </main>
 
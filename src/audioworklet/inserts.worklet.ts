@@ -0,0 +1,144 @@
+// Audio worklet processors for track inserts - bitcrusher and transient shaper
+
+// The audio worklet scope isn't part of the DOM or WebWorker libs - the
+// export below keeps these declarations local to this module
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processor: new () => AudioWorkletProcessor & {
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+  }
+): void;
+
+/**
+ * Reduces bit depth by rounding to fewer levels and sample rate by holding
+ * each sample for `downsample` samples. Fractional factors are allowed.
+ */
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 8, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'downsample', defaultValue: 4, minValue: 1, maxValue: 32, automationRate: 'k-rate' },
+      { name: 'mix', defaultValue: 1, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+    ];
+  }
+
+  private phase: number[] = [];
+  private held: number[] = [];
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    const levels = Math.pow(2, parameters.bits[0] - 1);
+    const increment = 1 / parameters.downsample[0];
+    const mix = parameters.mix[0];
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const source = input[channel];
+      const target = output[channel];
+      if (!source) {
+        target.fill(0);
+        continue;
+      }
+
+      let phase = this.phase[channel] ?? 1;
+      let held = this.held[channel] ?? 0;
+      for (let i = 0; i < source.length; i++) {
+        phase += increment;
+        if (phase >= 1) {
+          phase -= 1;
+          held = Math.round(source[i] * levels) / levels;
+        }
+        target[i] = source[i] * (1 - mix) + held * mix;
+      }
+      this.phase[channel] = phase;
+      this.held[channel] = held;
+    }
+
+    // Keep running between hits - drum tracks are silent most of the time
+    return true;
+  }
+}
+
+const ATTACK_RANGE_DB = 18;
+const SUSTAIN_RANGE_DB = 18;
+
+// One-pole smoothing coefficient for a time constant in seconds
+const coefficient = (seconds: number) => Math.exp(-1 / (seconds * sampleRate));
+
+/**
+ * Envelope follower with separate attack and release
+ */
+class Envelope {
+  value = 0;
+  private attack: number;
+  private release: number;
+
+  constructor(attack: number, release: number) {
+    this.attack = coefficient(attack);
+    this.release = coefficient(release);
+  }
+
+  follow(level: number): number {
+    const c = level > this.value ? this.attack : this.release;
+    this.value = c * this.value + (1 - c) * level;
+    return this.value;
+  }
+}
+
+/**
+ * Level-independent transient shaper. Onsets are where a fast envelope runs
+ * ahead of a slow one, tails where a slow release lags behind a fast one;
+ * attack and sustain (-1 to 1) boost or cut each. Channels share one detector
+ * so the stereo image stays put.
+ */
+class TransientShaperProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'attack', defaultValue: 0, minValue: -1, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'sustain', defaultValue: 0, minValue: -1, maxValue: 1, automationRate: 'k-rate' },
+    ];
+  }
+
+  private attackFast = new Envelope(0.0005, 0.05);
+  private attackSlow = new Envelope(0.015, 0.05);
+  private sustainFast = new Envelope(0.0005, 0.03);
+  private sustainSlow = new Envelope(0.0005, 0.3);
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    const attackDb = parameters.attack[0] * ATTACK_RANGE_DB;
+    const sustainDb = parameters.sustain[0] * SUSTAIN_RANGE_DB;
+    const length = output[0]?.length ?? 0;
+
+    for (let i = 0; i < length; i++) {
+      let level = 0;
+      input.forEach(channel => {
+        level = Math.max(level, Math.abs(channel[i]));
+      });
+
+      const fast = this.attackFast.follow(level);
+      const slow = this.attackSlow.follow(level);
+      const tail = this.sustainSlow.follow(level);
+      const body = this.sustainFast.follow(level);
+      const onset = fast > 1e-6 ? Math.max(0, fast - slow) / fast : 0;
+      const decay = tail > 1e-6 ? Math.max(0, tail - body) / tail : 0;
+      const gain = Math.pow(10, (attackDb * onset + sustainDb * decay) / 20);
+
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = (input[channel]?.[i] ?? 0) * gain;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('bitcrusher', BitcrusherProcessor);
+registerProcessor('transient-shaper', TransientShaperProcessor);
+
+export {};
@@ -0,0 +1,92 @@
+// Euclidean rhythm generator popover - previews a track fill before applying it
+
+import React, { useState } from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { EuclideanOptions, generateEuclidean } from '../../utils/euclidean';
+import { MAX_TRACK_LENGTH, MIN_TRACK_LENGTH } from '../../utils/patternDefaults';
+
+interface EuclideanEditorProps {
+  trackIndex: number;
+  x: number; // Viewport position
+  y: number;
+  onClose: () => void;
+}
+
+export const EuclideanEditor: React.FC<EuclideanEditorProps> = ({ trackIndex, x, y, onClose }) => {
+  const { pattern, applyEuclidean } = usePatternStore();
+  const track = pattern.tracks[trackIndex];
+
+  const [options, setOptions] = useState<EuclideanOptions>(() => ({
+    hits: Math.max(1, Math.round((track?.length ?? 16) / 4)),
+    steps: track?.length ?? 16,
+    rotation: 0,
+    accents: 0,
+  }));
+
+  if (!track) return null;
+
+  const preview = generateEuclidean(options);
+  const hitCount = preview.filter(step => step.active).length;
+
+  const update = (changes: Partial<EuclideanOptions>) => {
+    setOptions(current => {
+      const next = { ...current, ...changes };
+      next.steps = Math.max(MIN_TRACK_LENGTH, Math.min(MAX_TRACK_LENGTH, next.steps));
+      next.hits = Math.max(0, Math.min(next.steps, next.hits));
+      next.accents = Math.max(0, Math.min(next.hits, next.accents));
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    applyEuclidean(trackIndex, options);
+    onClose();
+  };
+
+  const fields: { key: keyof EuclideanOptions; label: string; min: number; max: number }[] = [
+    { key: 'hits', label: 'Hits', min: 0, max: options.steps },
+    { key: 'steps', label: 'Steps', min: MIN_TRACK_LENGTH, max: MAX_TRACK_LENGTH },
+    { key: 'rotation', label: 'Rotate', min: 0, max: options.steps - 1 },
+    { key: 'accents', label: 'Accents', min: 0, max: hitCount },
+  ];
+
+  return (
+    <>
+      <div className="step-editor-backdrop" onClick={onClose} />
+      <div
+        className="step-editor euclidean-editor"
+        style={{ left: x, top: y }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="step-editor-title">{track.name} · Euclidean</div>
+
+        {fields.map((field) => (
+          <label key={field.key} className="step-editor-field">
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={options[field.key]}
+              onChange={(e) => update({ [field.key]: parseInt(e.target.value) || 0 })}
+            />
+          </label>
+        ))}
+
+        <div className="euclidean-preview">
+          {preview.map((step, i) => (
+            <div
+              key={i}
+              className={`euclidean-preview-step ${step.active ? 'active' : ''} ${step.accent ? 'accent' : ''}`}
+            />
+          ))}
+        </div>
+
+        <div className="step-editor-actions">
+          <button onClick={onClose}>Cancel</button>
+          <button onClick={handleApply}>Apply</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -1,84 +1,265 @@
-// Sequencer grid component - 8 tracks x 16 steps
+// Sequencer grid component - 8 tracks, each with its own step length
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { usePatternStore } from '../../store/usePatternStore';
+import { MAX_TRACK_LENGTH, MIN_TRACK_LENGTH } from '../../utils/patternDefaults';
+import { getStepsPerBar, getStepsPerBeat } from '../../utils/patternTiming';
+import { formatCondition } from '../../utils/trigConditions';
+import { PAD_LABELS } from '../../utils/liveRecording';
+import { PLAY_DIRECTIONS } from '../../utils/playDirection';
+import { formatLockKey } from '../../utils/insertEffects';
+import { StepEditor } from './StepEditor';
+import { EuclideanEditor } from './EuclideanEditor';
 import './Grid.css';
 
 interface GridProps {
   currentStep: number;
+  trackSteps: number[]; // Per-track playhead positions
   selectedTrackIndex: number;
   onTrackSelect: (trackIndex: number) => void;
 }
 
-export const Grid: React.FC<GridProps> = ({ currentStep, selectedTrackIndex, onTrackSelect }) => {
-  const { pattern, toggleStep, toggleMute, toggleSolo, setTrackVolume } = usePatternStore();
+// Holding a step this long selects it for parameter locks
+const HOLD_TO_LOCK_MS = 400;
+
+interface EditingStep {
+  trackIndex: number;
+  stepIndex: number;
+  x: number;
+  y: number;
+}
+
+export const Grid: React.FC<GridProps> = ({ currentStep, trackSteps, selectedTrackIndex, onTrackSelect }) => {
+  const {
+    pattern,
+    selectedStep,
+    toggleStep,
+    toggleMute,
+    toggleSolo,
+    performanceMutes,
+    liveMutes,
+    pendingMutes,
+    togglePerformanceMute,
+    togglePerformanceSolo,
+    setTrackVolume,
+    setTrackLength,
+    setTrackDirection,
+    selectStep
+  } = usePatternStore();
+  const stepsPerBeat = getStepsPerBeat(pattern.timeSignature, pattern.stepResolution);
+  const stepsPerBar = getStepsPerBar(pattern.timeSignature, pattern.stepResolution);
+  const [editingStep, setEditingStep] = useState<EditingStep | null>(null);
+  const [euclideanTrack, setEuclideanTrack] = useState<{ trackIndex: number; x: number; y: number } | null>(null);
+  const holdTimerRef = useRef<number | null>(null);
+  const heldRef = useRef(false);
+
+  const toggleLockTarget = (trackIndex: number, stepIndex: number) => {
+    const isSelected =
+      selectedStep?.trackIndex === trackIndex && selectedStep.stepIndex === stepIndex;
+    selectStep(isSelected ? null : { trackIndex, stepIndex });
+    onTrackSelect(trackIndex);
+  };
+
+  const startHold = (trackIndex: number, stepIndex: number) => {
+    heldRef.current = false;
+    holdTimerRef.current = window.setTimeout(() => {
+      heldRef.current = true;
+      selectStep({ trackIndex, stepIndex });
+      onTrackSelect(trackIndex);
+    }, HOLD_TO_LOCK_MS);
+  };
+
+  const cancelHold = () => {
+    if (holdTimerRef.current !== null) {
+      clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+  };
 
   return (
     <div className="grid-container">
-      {pattern.tracks.map((track, trackIndex) => (
-        <div
-          key={track.id}
-          className={`grid-row ${selectedTrackIndex === trackIndex ? 'selected' : ''}`}
-          onClick={() => onTrackSelect(trackIndex)}
-        >
-          <div className="track-header">
-            <div className="track-info">
-              <span className="track-name">{track.name}</span>
-              <span className="track-type">{track.synthType}</span>
+      {pattern.tracks.map((track, trackIndex) => {
+        // Fall back to the master step before the first per-track update arrives
+        const playhead = trackSteps[trackIndex] ?? currentStep % track.length;
+        const directionIndex = Math.max(0, PLAY_DIRECTIONS.findIndex(d => d.value === (track.direction ?? 'forward')));
+        const direction = PLAY_DIRECTIONS[directionIndex];
+
+        // In performance mode M and S show and change the live layer, not the pattern
+        const muted = performanceMutes ? liveMutes.mute[trackIndex] ?? track.mute : track.mute;
+        const soloed = performanceMutes ? liveMutes.solo[trackIndex] ?? track.solo : track.solo;
+        const mutePending = pendingMutes !== null && (pendingMutes.mute[trackIndex] ?? muted) !== muted;
+        const soloPending = pendingMutes !== null && (pendingMutes.solo[trackIndex] ?? soloed) !== soloed;
+
+        return (
+          <div
+            key={track.id}
+            className={`grid-row ${selectedTrackIndex === trackIndex ? 'selected' : ''}`}
+            onClick={() => onTrackSelect(trackIndex)}
+          >
+            <div className="track-header">
+              <div className="track-info">
+                <span className="track-name">
+                  {track.name}
+                  {PAD_LABELS[trackIndex] && (
+                    <kbd className="track-pad-key" title="Pad key">{PAD_LABELS[trackIndex]}</kbd>
+                  )}
+                </span>
+                <span className="track-type">{track.synthType}</span>
+              </div>
+              <div className="track-controls">
+                <button
+                  className={`track-button ${muted ? 'active' : ''} ${mutePending ? 'pending' : ''}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (performanceMutes) {
+                      togglePerformanceMute(trackIndex);
+                    } else {
+                      toggleMute(trackIndex);
+                    }
+                  }}
+                  title={performanceMutes ? 'Performance mute' : 'Mute'}
+                >
+                  M
+                </button>
+                <button
+                  className={`track-button ${soloed ? 'active' : ''} ${soloPending ? 'pending' : ''}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (performanceMutes) {
+                      togglePerformanceSolo(trackIndex);
+                    } else {
+                      toggleSolo(trackIndex);
+                    }
+                  }}
+                  title={performanceMutes ? 'Performance solo' : 'Solo'}
+                >
+                  S
+                </button>
+                <button
+                  className="track-button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onTrackSelect(trackIndex);
+                    setEuclideanTrack({ trackIndex, x: e.clientX, y: e.clientY });
+                  }}
+                  title="Euclidean generator"
+                >
+                  E
+                </button>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={track.volume * 100}
+                  onChange={(e) => setTrackVolume(trackIndex, parseInt(e.target.value) / 100)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="track-volume"
+                  title="Volume"
+                />
+                <button
+                  className={`track-button ${direction.value !== 'forward' ? 'active' : ''}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    const next = PLAY_DIRECTIONS[(directionIndex + 1) % PLAY_DIRECTIONS.length];
+                    setTrackDirection(trackIndex, next.value);
+                  }}
+                  title={`Direction: ${direction.label} (click to change)`}
+                >
+                  {direction.symbol}
+                </button>
+                <input
+                  type="number"
+                  min={MIN_TRACK_LENGTH}
+                  max={MAX_TRACK_LENGTH}
+                  value={track.length}
+                  onChange={(e) => setTrackLength(trackIndex, parseInt(e.target.value) || track.length)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="track-length"
+                  title="Track length (steps)"
+                />
+              </div>
             </div>
-            <div className="track-controls">
-              <button
-                className={`track-button ${track.mute ? 'active' : ''}`}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleMute(trackIndex);
-                }}
-                title="Mute"
-              >
-                M
-              </button>
-              <button
-                className={`track-button ${track.solo ? 'active' : ''}`}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleSolo(trackIndex);
-                }}
-                title="Solo"
-              >
-                S
-              </button>
-              <input
-                type="range"
-                min="0"
-                max="100"
-                value={track.volume * 100}
-                onChange={(e) => setTrackVolume(trackIndex, parseInt(e.target.value) / 100)}
-                onClick={(e) => e.stopPropagation()}
-                className="track-volume"
-                title="Volume"
-              />
+
+            <div className="steps-container">
+              {track.steps.slice(0, track.length).map((step, stepIndex) => (
+                <button
+                  key={stepIndex}
+                  className={`step ${step.active ? 'active' : ''} ${
+                    stepIndex === playhead ? 'current' : ''
+                  } ${stepIndex % stepsPerBeat === 0 ? 'beat' : ''} ${
+                    stepIndex % stepsPerBar === 0 ? 'bar' : ''
+                  } ${step.condition ? 'conditional' : ''} ${step.slide ? 'slide' : ''} ${
+                    step.parameters && Object.keys(step.parameters).length > 0 ? 'locked' : ''
+                  } ${
+                    selectedStep?.trackIndex === trackIndex && selectedStep.stepIndex === stepIndex
+                      ? 'lock-target'
+                      : ''
+                  }`}
+                  onMouseDown={(e) => {
+                    if (e.button === 0 && !e.shiftKey) startHold(trackIndex, stepIndex);
+                  }}
+                  onMouseUp={cancelHold}
+                  onMouseLeave={cancelHold}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (e.shiftKey) {
+                      toggleLockTarget(trackIndex, stepIndex);
+                      return;
+                    }
+                    // A hold already selected the step - don't toggle it too
+                    if (heldRef.current) {
+                      heldRef.current = false;
+                      return;
+                    }
+                    toggleStep(trackIndex, stepIndex);
+                  }}
+                  onContextMenu={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onTrackSelect(trackIndex);
+                    setEditingStep({ trackIndex, stepIndex, x: e.clientX, y: e.clientY });
+                  }}
+                  title={`Step ${stepIndex + 1}\nVelocity: ${step.velocity}\nProbability: ${Math.round(step.probability * 100)}%${
+                    step.condition ? `\nCondition: ${formatCondition(step.condition)}` : ''
+                  }${step.ratchet ? `\nRatchet: ×${step.ratchet.count}` : ''}${step.slide ? '\nSlide' : ''}${
+                    step.parameters
+                      ? `\nLocks: ${Object.keys(step.parameters).map(key => formatLockKey(track, key)).join(', ')}`
+                      : ''
+                  }\nRight-click to edit • Shift-click or hold to lock parameters`}
+                >
+                  <div className="step-indicator" style={{ opacity: step.velocity / 127 }} />
+                  {step.condition && (
+                    <span className="step-condition">{formatCondition(step.condition)}</span>
+                  )}
+                  {step.ratchet && (
+                    <span className="step-ratchet">×{step.ratchet.count}</span>
+                  )}
+                </button>
+              ))}
             </div>
           </div>
+        );
+      })}
 
-          <div className="steps-container">
-            {track.steps.map((step, stepIndex) => (
-              <button
-                key={stepIndex}
-                className={`step ${step.active ? 'active' : ''} ${
-                  stepIndex === currentStep ? 'current' : ''
-                } ${stepIndex % 4 === 0 ? 'beat' : ''}`}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleStep(trackIndex, stepIndex);
-                }}
-                title={`Step ${stepIndex + 1}\nVelocity: ${step.velocity}\nProbability: ${Math.round(step.probability * 100)}%`}
-              >
-                <div className="step-indicator" style={{ opacity: step.velocity / 127 }} />
-              </button>
-            ))}
-          </div>
-        </div>
-      ))}
+      {editingStep && (
+        <StepEditor
+          trackIndex={editingStep.trackIndex}
+          stepIndex={editingStep.stepIndex}
+          x={editingStep.x}
+          y={editingStep.y}
+          onClose={() => setEditingStep(null)}
+        />
+      )}
+
+      {euclideanTrack && (
+        <EuclideanEditor
+          key={euclideanTrack.trackIndex}
+          trackIndex={euclideanTrack.trackIndex}
+          x={euclideanTrack.x}
+          y={euclideanTrack.y}
+          onClose={() => setEuclideanTrack(null)}
+        />
+      )}
     </div>
   );
 };
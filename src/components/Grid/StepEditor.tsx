@@ -0,0 +1,140 @@
+// Step editor popover - per-step settings beyond on/off
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { Ratchet } from '../../types/pattern';
+import { CONDITION_PRESETS, formatCondition } from '../../utils/trigConditions';
+import { MAX_PITCH_RAMP, MAX_RATCHET_COUNT } from '../../utils/ratchets';
+
+interface StepEditorProps {
+  trackIndex: number;
+  stepIndex: number;
+  x: number; // Viewport position
+  y: number;
+  onClose: () => void;
+}
+
+export const StepEditor: React.FC<StepEditorProps> = ({ trackIndex, stepIndex, x, y, onClose }) => {
+  const {
+    pattern,
+    setStepCondition,
+    setStepRatchet,
+    setStepSlide,
+    selectStep,
+    clearStepParameters
+  } = usePatternStore();
+  const track = pattern.tracks[trackIndex];
+  const step = track?.steps[stepIndex];
+
+  if (!step) return null;
+
+  const handleConditionChange = (label: string) => {
+    const condition = CONDITION_PRESETS.find(c => formatCondition(c) === label);
+    setStepCondition(trackIndex, stepIndex, condition);
+  };
+
+  const ratchet: Ratchet = step.ratchet ?? { count: 1, velocityRamp: 'none', pitchRamp: 0 };
+
+  const handleRatchetChange = (changes: Partial<Ratchet>) => {
+    setStepRatchet(trackIndex, stepIndex, { ...ratchet, ...changes });
+  };
+
+  return (
+    <>
+      <div
+        className="step-editor-backdrop"
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      />
+      <div className="step-editor" style={{ left: x, top: y }}>
+        <div className="step-editor-title">
+          {track.name} · Step {stepIndex + 1}
+        </div>
+
+        <label className="step-editor-field">
+          Condition
+          <select
+            value={step.condition ? formatCondition(step.condition) : ''}
+            onChange={(e) => handleConditionChange(e.target.value)}
+          >
+            <option value="">None</option>
+            {CONDITION_PRESETS.map((condition) => (
+              <option key={formatCondition(condition)} value={formatCondition(condition)}>
+                {formatCondition(condition)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="step-editor-field">
+          Ratchet
+          <select
+            value={ratchet.count}
+            onChange={(e) => handleRatchetChange({ count: parseInt(e.target.value) })}
+          >
+            <option value={1}>Off</option>
+            {Array.from({ length: MAX_RATCHET_COUNT - 1 }, (_, i) => i + 2).map((count) => (
+              <option key={count} value={count}>×{count}</option>
+            ))}
+          </select>
+        </label>
+
+        {step.ratchet && (
+          <>
+            <label className="step-editor-field">
+              Velocity
+              <select
+                value={ratchet.velocityRamp}
+                onChange={(e) => handleRatchetChange({ velocityRamp: e.target.value as Ratchet['velocityRamp'] })}
+              >
+                <option value="none">Flat</option>
+                <option value="up">Ramp up</option>
+                <option value="down">Ramp down</option>
+              </select>
+            </label>
+
+            <label className="step-editor-field">
+              Pitch ramp
+              <input
+                type="number"
+                min={-MAX_PITCH_RAMP}
+                max={MAX_PITCH_RAMP}
+                value={ratchet.pitchRamp}
+                onChange={(e) => handleRatchetChange({ pitchRamp: parseInt(e.target.value) || 0 })}
+                title="Semitones from first to last hit"
+              />
+            </label>
+          </>
+        )}
+
+        <label className="step-editor-field" title="Glide locked parameters to the next step's locks">
+          Slide
+          <input
+            type="checkbox"
+            checked={step.slide ?? false}
+            onChange={(e) => setStepSlide(trackIndex, stepIndex, e.target.checked)}
+          />
+        </label>
+
+        <div className="step-editor-actions">
+          <button
+            onClick={() => {
+              selectStep({ trackIndex, stepIndex });
+              onClose();
+            }}
+          >
+            Lock Parameters
+          </button>
+          {step.parameters && (
+            <button onClick={() => clearStepParameters(trackIndex, stepIndex)}>
+              Clear Locks
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
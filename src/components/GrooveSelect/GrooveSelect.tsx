@@ -0,0 +1,60 @@
+// Groove template picker - built-in presets plus the user's saved grooves
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { Groove } from '../../types/pattern';
+import { GROOVE_PRESETS } from '../../utils/grooves';
+
+interface GrooveSelectProps {
+  value: Groove | null; // null follows the pattern groove
+  onChange: (groove: Groove | null) => void;
+  allowFollow?: boolean; // Offer a "follow pattern" option
+  className?: string;
+}
+
+export const GrooveSelect: React.FC<GrooveSelectProps> = ({
+  value,
+  onChange,
+  allowFollow = false,
+  className = ''
+}) => {
+  const { savedGrooves } = usePatternStore();
+
+  // The pattern keeps a copy of its groove, which may no longer be in the library
+  const isUnlisted = value !== null &&
+    !GROOVE_PRESETS.some(g => g.id === value.id) &&
+    !savedGrooves.some(g => g.id === value.id);
+
+  const handleChange = (id: string) => {
+    if (id === '') {
+      onChange(null);
+      return;
+    }
+    const groove = [...GROOVE_PRESETS, ...savedGrooves].find(g => g.id === id)
+      ?? (value?.id === id ? value : undefined);
+    if (groove) onChange(groove);
+  };
+
+  return (
+    <select
+      className={className}
+      value={value?.id ?? ''}
+      onChange={(e) => handleChange(e.target.value)}
+    >
+      {allowFollow && <option value="">Pattern groove</option>}
+      <optgroup label="Presets">
+        {GROOVE_PRESETS.map((groove) => (
+          <option key={groove.id} value={groove.id}>{groove.name}</option>
+        ))}
+      </optgroup>
+      {(savedGrooves.length > 0 || isUnlisted) && (
+        <optgroup label="My Grooves">
+          {savedGrooves.map((groove) => (
+            <option key={groove.id} value={groove.id}>{groove.name}</option>
+          ))}
+          {isUnlisted && <option value={value.id}>{value.name}</option>}
+        </optgroup>
+      )}
+    </select>
+  );
+};
@@ -0,0 +1,89 @@
+// Effects strip - delay and reverb on the send buses
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { NoteDivision, SendEffects } from '../../types/pattern';
+import { NOTE_DIVISIONS, getDivisionSeconds } from '../../utils/patternTiming';
+
+interface EffectControl<K extends keyof SendEffects> {
+  key: keyof SendEffects[K];
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const DELAY_CONTROLS: EffectControl<'delay'>[] = [
+  { key: 'feedback', label: 'Feedback', min: 0, max: 0.95, step: 0.01, format: formatPercent },
+  { key: 'filter', label: 'Filter', min: 200, max: 20000, step: 100, format: (v) => `${(v / 1000).toFixed(1)} kHz` },
+  { key: 'level', label: 'Return', min: 0, max: 1, step: 0.01, format: formatPercent },
+];
+
+const REVERB_CONTROLS: EffectControl<'reverb'>[] = [
+  { key: 'size', label: 'Size', min: 0, max: 1, step: 0.01, format: formatPercent },
+  { key: 'decay', label: 'Decay', min: 0.2, max: 8, step: 0.1, format: (v) => `${v.toFixed(1)} s` },
+  { key: 'damping', label: 'Damping', min: 0, max: 1, step: 0.01, format: formatPercent },
+  { key: 'level', label: 'Return', min: 0, max: 1, step: 0.01, format: formatPercent },
+];
+
+export const EffectsStrip: React.FC = () => {
+  const { pattern, setSendEffect } = usePatternStore();
+  const { delay } = pattern.effects;
+
+  const renderControls = <K extends keyof SendEffects>(effect: K, controls: EffectControl<K>[]) =>
+    controls.map((control) => {
+      const value = pattern.effects[effect][control.key] as number;
+      return (
+        <label key={String(control.key)} className="mixer-control">
+          <span>{control.label} {control.format(value)}</span>
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            step={control.step}
+            value={value}
+            onChange={(e) =>
+              setSendEffect(effect, { [control.key]: parseFloat(e.target.value) } as Partial<SendEffects[K]>)
+            }
+          />
+        </label>
+      );
+    });
+
+  return (
+    <div className="mixer-strip master-strip">
+      <div className="mixer-strip-name">Effects</div>
+
+      <div className="master-stage">
+        <div className="effect-name" title="Fed by the tracks' Delay sends">Delay</div>
+        <label className="mixer-control">
+          <span>Time {Math.round(getDivisionSeconds(pattern.bpm, delay.division) * 1000)} ms</span>
+          <select
+            value={delay.division}
+            onChange={(e) => setSendEffect('delay', { division: e.target.value as NoteDivision })}
+          >
+            {NOTE_DIVISIONS.map(division => (
+              <option key={division.value} value={division.value}>{division.label}</option>
+            ))}
+          </select>
+        </label>
+        {renderControls('delay', DELAY_CONTROLS)}
+        <button
+          className={`mixer-button master-bypass ${delay.pingPong ? 'active' : ''}`}
+          onClick={() => setSendEffect('delay', { pingPong: !delay.pingPong })}
+          title="Bounce repeats between left and right"
+        >
+          Ping-pong
+        </button>
+      </div>
+
+      <div className="master-stage">
+        <div className="effect-name" title="Fed by the tracks' Reverb sends">Reverb</div>
+        {renderControls('reverb', REVERB_CONTROLS)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+// Master strip - EQ, compressor and limiter controls with per-stage bypass
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { MasterSettings } from '../../types/pattern';
+
+interface StageControl<K extends keyof MasterSettings> {
+  key: Exclude<keyof MasterSettings[K], 'enabled'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const formatDb = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`;
+const formatMs = (value: number) => `${Math.round(value * 1000)} ms`;
+
+const EQ_CONTROLS: StageControl<'eq'>[] = [
+  { key: 'low', label: 'Low', min: -12, max: 12, step: 0.5, format: formatDb },
+  { key: 'mid', label: 'Mid', min: -12, max: 12, step: 0.5, format: formatDb },
+  { key: 'high', label: 'High', min: -12, max: 12, step: 0.5, format: formatDb },
+];
+
+const COMPRESSOR_CONTROLS: StageControl<'compressor'>[] = [
+  { key: 'threshold', label: 'Threshold', min: -40, max: 0, step: 0.5, format: formatDb },
+  { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: (v) => `${v}:1` },
+  { key: 'attack', label: 'Attack', min: 0.001, max: 0.1, step: 0.001, format: formatMs },
+  { key: 'release', label: 'Release', min: 0.05, max: 1, step: 0.01, format: formatMs },
+  { key: 'makeup', label: 'Makeup', min: 0, max: 12, step: 0.5, format: formatDb },
+];
+
+const LIMITER_CONTROLS: StageControl<'limiter'>[] = [
+  { key: 'ceiling', label: 'Ceiling', min: -12, max: 0, step: 0.1, format: formatDb },
+];
+
+export const MasterStrip: React.FC = () => {
+  const { pattern, setMasterStage } = usePatternStore();
+  const { master } = pattern;
+
+  const renderStage = <K extends keyof MasterSettings>(
+    stage: K,
+    title: string,
+    controls: StageControl<K>[]
+  ) => {
+    const settings = master[stage];
+
+    return (
+      <div className={`master-stage ${settings.enabled ? '' : 'bypassed'}`}>
+        <button
+          className={`mixer-button master-bypass ${settings.enabled ? 'active' : ''}`}
+          onClick={() => setMasterStage(stage, { enabled: !settings.enabled } as Partial<MasterSettings[K]>)}
+          title={settings.enabled ? `Bypass ${title}` : `Enable ${title}`}
+        >
+          {title}
+        </button>
+
+        {controls.map((control) => {
+          const value = settings[control.key] as number;
+          return (
+            <label key={String(control.key)} className="mixer-control">
+              <span>{control.label} {control.format(value)}</span>
+              <input
+                type="range"
+                min={control.min}
+                max={control.max}
+                step={control.step}
+                value={value}
+                onChange={(e) =>
+                  setMasterStage(stage, { [control.key]: parseFloat(e.target.value) } as Partial<MasterSettings[K]>)
+                }
+              />
+            </label>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mixer-strip master-strip">
+      <div className="mixer-strip-name">Master</div>
+      {renderStage('eq', 'EQ', EQ_CONTROLS)}
+      {renderStage('compressor', 'Comp', COMPRESSOR_CONTROLS)}
+      {renderStage('limiter', 'Limit', LIMITER_CONTROLS)}
+    </div>
+  );
+};
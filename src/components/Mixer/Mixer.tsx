@@ -0,0 +1,114 @@
+// Mixer view - a channel strip per track with fader, pan, sends, mute and solo
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { SEND_BUS_NAMES } from '../../utils/patternDefaults';
+import { MasterStrip } from './MasterStrip';
+import { EffectsStrip } from './EffectsStrip';
+import { SidechainStrip } from './SidechainStrip';
+import './Mixer.css';
+
+interface MixerProps {
+  selectedTrackIndex: number;
+  onTrackSelect: (trackIndex: number) => void;
+}
+
+/**
+ * Pan position as L/C/R text
+ */
+const formatPan = (pan: number): string => {
+  if (Math.abs(pan) < 0.01) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+};
+
+export const Mixer: React.FC<MixerProps> = ({ selectedTrackIndex, onTrackSelect }) => {
+  const {
+    pattern,
+    performanceMutes,
+    liveMutes,
+    setTrackVolume,
+    setTrackPan,
+    setTrackSend,
+    toggleMute,
+    toggleSolo,
+    togglePerformanceMute,
+    togglePerformanceSolo
+  } = usePatternStore();
+
+  return (
+    <div className="mixer">
+      {pattern.tracks.map((track, trackIndex) => {
+        // Performance mutes show and change the live layer, as in the grid
+        const muted = performanceMutes ? liveMutes.mute[trackIndex] ?? track.mute : track.mute;
+        const soloed = performanceMutes ? liveMutes.solo[trackIndex] ?? track.solo : track.solo;
+
+        return (
+          <div
+            key={track.id}
+            className={`mixer-strip ${selectedTrackIndex === trackIndex ? 'selected' : ''}`}
+            onClick={() => onTrackSelect(trackIndex)}
+          >
+            <div className="mixer-strip-name" title={track.synthType}>{track.name}</div>
+
+            {track.sends.map((level, sendIndex) => (
+              <label key={sendIndex} className="mixer-control" title={`${SEND_BUS_NAMES[sendIndex]} level`}>
+                <span>{SEND_BUS_NAMES[sendIndex] ?? `Send ${sendIndex + 1}`}</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={level * 100}
+                  onChange={(e) => setTrackSend(trackIndex, sendIndex, parseInt(e.target.value) / 100)}
+                />
+              </label>
+            ))}
+
+            <label className="mixer-control" title="Pan (double-click to centre)">
+              <span>Pan {formatPan(track.pan)}</span>
+              <input
+                type="range"
+                min="-100"
+                max="100"
+                value={track.pan * 100}
+                onChange={(e) => setTrackPan(trackIndex, parseInt(e.target.value) / 100)}
+                onDoubleClick={() => setTrackPan(trackIndex, 0)}
+              />
+            </label>
+
+            <div className="mixer-buttons">
+              <button
+                className={`mixer-button ${muted ? 'active' : ''}`}
+                onClick={() => (performanceMutes ? togglePerformanceMute(trackIndex) : toggleMute(trackIndex))}
+                title="Mute"
+              >
+                M
+              </button>
+              <button
+                className={`mixer-button ${soloed ? 'active' : ''}`}
+                onClick={() => (performanceMutes ? togglePerformanceSolo(trackIndex) : toggleSolo(trackIndex))}
+                title="Solo"
+              >
+                S
+              </button>
+            </div>
+
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={track.volume * 100}
+              onChange={(e) => setTrackVolume(trackIndex, parseInt(e.target.value) / 100)}
+              className="mixer-fader"
+              title="Volume"
+            />
+            <div className="mixer-value">{Math.round(track.volume * 100)}</div>
+          </div>
+        );
+      })}
+
+      <EffectsStrip />
+      <SidechainStrip />
+      <MasterStrip />
+    </div>
+  );
+};
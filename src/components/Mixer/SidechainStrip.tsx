@@ -0,0 +1,100 @@
+// Sidechain strip - key track, ducked targets and the ducking envelope
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { SidechainSettings } from '../../types/pattern';
+import { SEND_BUS_NAMES } from '../../utils/patternDefaults';
+
+interface EnvelopeControl {
+  key: 'amount' | 'attack' | 'release';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const formatMs = (value: number) => `${Math.round(value * 1000)} ms`;
+
+const ENVELOPE_CONTROLS: EnvelopeControl[] = [
+  { key: 'amount', label: 'Amount', min: 0, max: 1, step: 0.01, format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'attack', label: 'Attack', min: 0, max: 0.05, step: 0.001, format: formatMs },
+  { key: 'release', label: 'Release', min: 0.02, max: 1, step: 0.01, format: formatMs },
+];
+
+export const SidechainStrip: React.FC = () => {
+  const { pattern, setSidechain, toggleSidechainTrack, toggleSidechainSend } = usePatternStore();
+  const { sidechain } = pattern;
+
+  return (
+    <div className={`mixer-strip master-strip ${sidechain.enabled ? '' : 'bypassed'}`}>
+      <div className="mixer-strip-name">Sidechain</div>
+
+      <button
+        className={`mixer-button master-bypass ${sidechain.enabled ? 'active' : ''}`}
+        onClick={() => setSidechain({ enabled: !sidechain.enabled })}
+        title={sidechain.enabled ? 'Turn ducking off' : 'Turn ducking on'}
+      >
+        {sidechain.enabled ? 'On' : 'Off'}
+      </button>
+
+      <div className="master-stage">
+        <label className="mixer-control">
+          <span>Key</span>
+          <select
+            value={sidechain.source ?? ''}
+            onChange={(e) => setSidechain({ source: e.target.value || null })}
+          >
+            <option value="">None</option>
+            {pattern.tracks.map(track => (
+              <option key={track.id} value={track.id}>{track.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {ENVELOPE_CONTROLS.map(control => (
+          <label key={control.key} className="mixer-control">
+            <span>{control.label} {control.format(sidechain[control.key])}</span>
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={sidechain[control.key]}
+              onChange={(e) =>
+                setSidechain({ [control.key]: parseFloat(e.target.value) } as Partial<SidechainSettings>)
+              }
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="master-stage">
+        <div className="effect-name">Ducks</div>
+        <div className="sidechain-targets">
+          {pattern.tracks.map(track => (
+            <button
+              key={track.id}
+              className={`mixer-button ${sidechain.tracks.includes(track.id) ? 'active' : ''}`}
+              disabled={track.id === sidechain.source}
+              onClick={() => toggleSidechainTrack(track.id)}
+              title={track.id === sidechain.source ? 'Key track' : `Duck ${track.name}`}
+            >
+              {track.name}
+            </button>
+          ))}
+          {SEND_BUS_NAMES.map((name, index) => (
+            <button
+              key={name}
+              className={`mixer-button ${sidechain.sends.includes(index) ? 'active' : ''}`}
+              onClick={() => toggleSidechainSend(index)}
+              title={`Duck the ${name.toLowerCase()} return`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+// Mute scenes bar - performance mutes, scene slots and quantized recall
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { MuteQuantize } from '../../types/pattern';
+import { MUTE_QUANTIZE_OPTIONS } from '../../utils/muteScenes';
+import './MuteScenes.css';
+
+export const MuteScenes: React.FC = () => {
+  const {
+    performanceMutes,
+    pendingMutes,
+    muteQuantize,
+    muteScenes,
+    setPerformanceMutes,
+    setMuteQuantize,
+    saveMuteScene,
+    recallMuteScene,
+    cancelPendingMutes
+  } = usePatternStore();
+
+  const handleSceneClick = (slot: number, shiftKey: boolean) => {
+    // Empty slots save on click, filled slots need shift to overwrite
+    if (shiftKey || !muteScenes[slot]) {
+      saveMuteScene(slot);
+    } else {
+      recallMuteScene(slot);
+    }
+  };
+
+  return (
+    <div className="mute-scenes">
+      <button
+        className={`mute-scenes-button ${performanceMutes ? 'active' : ''}`}
+        onClick={() => setPerformanceMutes(!performanceMutes)}
+        title="Performance mutes - M and S play live without changing the saved pattern"
+      >
+        Perform
+      </button>
+
+      <select
+        value={muteQuantize}
+        onChange={(e) => setMuteQuantize(e.target.value as MuteQuantize)}
+        className="mute-scenes-select"
+        title="When performance mute changes take effect while playing"
+      >
+        {MUTE_QUANTIZE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="mute-scenes-slots">
+        {muteScenes.map((scene, slot) => (
+          <button
+            key={slot}
+            className={`mute-scene ${scene ? 'saved' : ''}`}
+            onClick={(e) => handleSceneClick(slot, e.shiftKey)}
+            title={scene ? `Recall scene ${slot + 1} (shift-click to overwrite)` : `Save mutes as scene ${slot + 1}`}
+          >
+            {slot + 1}
+          </button>
+        ))}
+      </div>
+
+      {pendingMutes && (
+        <div className="mute-scenes-pending" title="Armed changes switch together on the next beat or bar">
+          Armed
+          <button onClick={cancelPendingMutes} title="Cancel armed mutes">×</button>
+        </div>
+      )}
+    </div>
+  );
+};
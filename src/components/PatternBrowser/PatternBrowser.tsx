@@ -3,6 +3,7 @@
 import React from 'react';
 import { usePatternStore } from '../../store/usePatternStore';
 import { Pattern } from '../../types/pattern';
+import { formatTimeSignature } from '../../utils/patternTiming';
 import './PatternBrowser.css';
 
 interface PatternBrowserProps {
@@ -11,10 +12,25 @@ interface PatternBrowserProps {
 }
 
 export const PatternBrowser: React.FC<PatternBrowserProps> = ({ isOpen, onClose }) => {
-  const { savedPatterns, loadPattern, deletePattern } = usePatternStore();
+  const {
+    savedPatterns,
+    isPlaying,
+    playMode,
+    queuedPattern,
+    loadPattern,
+    queuePattern,
+    deletePattern
+  } = usePatternStore();
+
+  // While a pattern loops, picking another cues it for the end of the loop
+  const isCueing = isPlaying && playMode === 'pattern';
 
   const handleLoad = (pattern: Pattern) => {
-    loadPattern(pattern);
+    if (isCueing) {
+      queuePattern(pattern);
+    } else {
+      loadPattern(pattern);
+    }
     onClose();
   };
 
@@ -41,7 +57,7 @@ export const PatternBrowser: React.FC<PatternBrowserProps> = ({ isOpen, onClose
     <div className="pattern-browser-overlay" onClick={onClose}>
       <div className="pattern-browser" onClick={(e) => e.stopPropagation()}>
         <div className="pattern-browser-header">
-          <h2>Pattern Library</h2>
+          <h2>{isCueing ? 'Cue Next Pattern' : 'Pattern Library'}</h2>
           <button className="close-button" onClick={onClose}>×</button>
         </div>
 
@@ -56,11 +72,14 @@ export const PatternBrowser: React.FC<PatternBrowserProps> = ({ isOpen, onClose
               {savedPatterns.map((pattern) => (
                 <div
                   key={pattern.id}
-                  className="pattern-item"
+                  className={`pattern-item ${queuedPattern?.id === pattern.id ? 'queued' : ''}`}
                   onClick={() => handleLoad(pattern)}
                 >
                   <div className="pattern-item-header">
                     <h3>{pattern.name}</h3>
+                    {queuedPattern?.id === pattern.id && (
+                      <span className="queued-badge">Queued</span>
+                    )}
                     <button
                       className="delete-button"
                       onClick={(e) => handleDelete(pattern.id, e)}
@@ -72,10 +91,14 @@ export const PatternBrowser: React.FC<PatternBrowserProps> = ({ isOpen, onClose
 
                   <div className="pattern-item-details">
                     <span className="pattern-bpm">{pattern.bpm} BPM</span>
-                    <span className="pattern-swing">
-                      {Math.round(pattern.swing * 100)}% swing
-                    </span>
+                    {pattern.genre && <span className="pattern-genre">{pattern.genre}</span>}
+                    {pattern.groove && (
+                      <span className="pattern-groove">{pattern.groove.template.name}</span>
+                    )}
                     <span className="pattern-steps">{pattern.steps} steps</span>
+                    {pattern.timeSignature && (
+                      <span className="pattern-meter">{formatTimeSignature(pattern.timeSignature)}</span>
+                    )}
                   </div>
 
                   <div className="pattern-item-date">
@@ -86,7 +109,7 @@ export const PatternBrowser: React.FC<PatternBrowserProps> = ({ isOpen, onClose
                   <div className="pattern-preview">
                     {pattern.tracks.slice(0, 4).map((track) => (
                       <div key={track.id} className="preview-track">
-                        {track.steps.map((step, stepIndex) => (
+                        {track.steps.slice(0, track.length ?? pattern.steps).map((step, stepIndex) => (
                           <div
                             key={stepIndex}
                             className={`preview-step ${step.active ? 'active' : ''}`}
@@ -3,7 +3,7 @@
 import React, { useState, useRef } from 'react';
 import { usePatternStore } from '../../store/usePatternStore';
 import { PatternBrowser } from '../PatternBrowser/PatternBrowser';
-import { exportPatternAsJSON, importPatternFromJSON } from '../../utils/patternImportExport';
+import { exportPatternAsJSON, exportPatternAsWAV, importPatternFromJSON } from '../../utils/patternImportExport';
 import { getShareableURL } from '../../utils/patternSharing';
 import './PatternMenu.css';
 
@@ -11,6 +11,7 @@ export const PatternMenu: React.FC = () => {
   const {
     pattern,
     setPatternName,
+    setPatternGenre,
     saveCurrentPattern,
     newPattern,
     duplicatePattern
@@ -43,6 +44,15 @@ export const PatternMenu: React.FC = () => {
     setShowMenu(false);
   };
 
+  const handleExportWAV = async () => {
+    setShowMenu(false);
+    try {
+      await exportPatternAsWAV(pattern);
+    } catch (error) {
+      alert('Failed to render pattern: ' + (error as Error).message);
+    }
+  };
+
   const handleImport = () => {
     fileInputRef.current?.click();
   };
@@ -103,6 +113,14 @@ export const PatternMenu: React.FC = () => {
             {pattern.name}
           </div>
         )}
+        <input
+          type="text"
+          className="pattern-genre-input"
+          value={pattern.genre ?? ''}
+          onChange={(e) => setPatternGenre(e.target.value)}
+          placeholder="Genre"
+          title="Genre tag - the generator can learn from one genre at a time"
+        />
       </div>
 
       <div className="pattern-menu-buttons">
@@ -134,6 +152,7 @@ export const PatternMenu: React.FC = () => {
               <div className="menu-divider" />
               <button onClick={handleShare}>🔗 Share URL</button>
               <button onClick={handleExport}>⬇️ Export JSON</button>
+              <button onClick={handleExportWAV}>🔊 Export WAV</button>
               <button onClick={handleImport}>⬆️ Import JSON</button>
             </div>
           )}
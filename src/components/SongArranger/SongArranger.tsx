@@ -0,0 +1,158 @@
+// Song arrangement view - orders saved patterns into a song
+
+import React, { useState } from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { MAX_SONG_REPEATS, MIN_SONG_REPEATS } from '../../utils/songArrangement';
+import './SongArranger.css';
+
+export const SongArranger: React.FC = () => {
+  const {
+    song,
+    savedSongs,
+    savedPatterns,
+    songPosition,
+    setSongName,
+    addSongEntry,
+    removeSongEntry,
+    moveSongEntry,
+    setSongEntryRepeats,
+    newSong,
+    loadSong,
+    saveCurrentSong,
+    deleteSong
+  } = usePatternStore();
+
+  const [selectedPatternId, setSelectedPatternId] = useState('');
+
+  const patternNames = new Map(savedPatterns.map(pattern => [pattern.id, pattern.name]));
+
+  const handleAdd = () => {
+    const patternId = selectedPatternId || savedPatterns[0]?.id;
+    if (patternId) addSongEntry(patternId);
+  };
+
+  const handleLoad = (id: string) => {
+    const saved = savedSongs.find(s => s.id === id);
+    if (saved) loadSong(saved);
+  };
+
+  const handleNew = () => {
+    if (confirm('Create new song? Unsaved changes will be lost.')) {
+      newSong();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedSongs.some(s => s.id === song.id)) return;
+    if (confirm('Delete this song?')) {
+      await deleteSong(song.id);
+      newSong();
+    }
+  };
+
+  return (
+    <div className="song-arranger">
+      <div className="song-arranger-header">
+        <input
+          type="text"
+          className="song-name-input"
+          value={song.name}
+          onChange={(e) => setSongName(e.target.value)}
+          title="Song name"
+        />
+
+        <div className="song-arranger-actions">
+          <select
+            className="song-select"
+            value={savedSongs.some(s => s.id === song.id) ? song.id : ''}
+            onChange={(e) => handleLoad(e.target.value)}
+            title="Load song"
+          >
+            <option value="" disabled>Load song…</option>
+            {savedSongs.map((saved) => (
+              <option key={saved.id} value={saved.id}>{saved.name}</option>
+            ))}
+          </select>
+          <button className="song-button" onClick={handleNew}>New</button>
+          <button className="song-button" onClick={saveCurrentSong}>Save</button>
+          <button className="song-button" onClick={handleDelete}>Delete</button>
+        </div>
+      </div>
+
+      {song.entries.length === 0 ? (
+        <div className="song-empty">
+          Add saved patterns below to build an arrangement
+        </div>
+      ) : (
+        <ol className="song-entries">
+          {song.entries.map((entry, index) => (
+            <li
+              key={entry.id}
+              className={`song-entry ${songPosition === entry.id ? 'playing' : ''} ${
+                patternNames.has(entry.patternId) ? '' : 'missing'
+              }`}
+            >
+              <span className="song-entry-index">{index + 1}</span>
+              <span className="song-entry-name">
+                {patternNames.get(entry.patternId) ?? 'Missing pattern'}
+              </span>
+              <label className="song-entry-repeats">
+                ×
+                <input
+                  type="number"
+                  min={MIN_SONG_REPEATS}
+                  max={MAX_SONG_REPEATS}
+                  value={entry.repeats}
+                  onChange={(e) => setSongEntryRepeats(index, parseInt(e.target.value) || entry.repeats)}
+                  title="Repeats"
+                />
+              </label>
+              <button
+                className="song-entry-button"
+                onClick={() => moveSongEntry(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                className="song-entry-button"
+                onClick={() => moveSongEntry(index, 1)}
+                disabled={index === song.entries.length - 1}
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                className="song-entry-button"
+                onClick={() => removeSongEntry(index)}
+                title="Remove"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="song-add">
+        {savedPatterns.length === 0 ? (
+          <span className="song-empty">Save a pattern to add it to a song</span>
+        ) : (
+          <>
+            <select
+              className="song-select"
+              value={selectedPatternId || savedPatterns[0].id}
+              onChange={(e) => setSelectedPatternId(e.target.value)}
+            >
+              {savedPatterns.map((pattern) => (
+                <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+              ))}
+            </select>
+            <button className="song-button" onClick={handleAdd}>+ Add Pattern</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
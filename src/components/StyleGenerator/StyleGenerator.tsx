@@ -0,0 +1,82 @@
+// Style generator popover - new patterns learned from the saved library
+
+import React, { useState } from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { DEFAULT_STYLE_OPTIONS, getLibraryGenres, selectSourcePatterns, StyleOptions } from '../../utils/styleModel';
+import './StyleGenerator.css';
+
+interface StyleGeneratorProps {
+  onClose: () => void;
+}
+
+export const StyleGenerator: React.FC<StyleGeneratorProps> = ({ onClose }) => {
+  const { savedPatterns, generateFromLibrary } = usePatternStore();
+  const [options, setOptions] = useState<StyleOptions>(DEFAULT_STYLE_OPTIONS);
+
+  const genres = getLibraryGenres(savedPatterns);
+  const sourceCount = selectSourcePatterns(savedPatterns, options.genre).length;
+
+  const update = (changes: Partial<StyleOptions>) => {
+    setOptions(current => ({ ...current, ...changes }));
+  };
+
+  const sliders: { key: 'density' | 'complexity' | 'adherence'; label: string; max: number; title: string }[] = [
+    { key: 'density', label: 'Density', max: 2, title: 'How many hits compared to the source patterns' },
+    { key: 'complexity', label: 'Complexity', max: 1, title: 'Low keeps to the most common steps, high spreads hits around' },
+    { key: 'adherence', label: 'Fidelity', max: 1, title: 'How closely hits follow the learned positions' },
+  ];
+
+  return (
+    <>
+      <div className="style-generator-backdrop" onClick={onClose} />
+      <div className="style-generator">
+        <div className="style-generator-title">Generate from library</div>
+
+        <label className="style-generator-field">
+          Style
+          <select
+            value={options.genre ?? ''}
+            onChange={(e) => update({ genre: e.target.value || null })}
+          >
+            <option value="">All saved patterns</option>
+            {genres.map((genre) => (
+              <option key={genre} value={genre}>
+                {genre}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {sliders.map((slider) => (
+          <label key={slider.key} className="style-generator-field" title={slider.title}>
+            {slider.label}
+            <input
+              type="range"
+              min="0"
+              max={slider.max * 100}
+              value={Math.round(options[slider.key] * 100)}
+              onChange={(e) => update({ [slider.key]: parseInt(e.target.value) / 100 })}
+            />
+            <span className="style-generator-value">{Math.round(options[slider.key] * 100)}%</span>
+          </label>
+        ))}
+
+        <div className="style-generator-sources">
+          {sourceCount === 0
+            ? 'Save some patterns first to learn a style from them'
+            : `Learning from ${sourceCount} pattern${sourceCount === 1 ? '' : 's'}`}
+        </div>
+
+        <div className="style-generator-actions">
+          <button onClick={onClose}>Close</button>
+          <button
+            onClick={() => generateFromLibrary(options)}
+            disabled={sourceCount === 0}
+          >
+            Generate
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,158 @@
+// Insert rack - the selected track's insert effects, in processing order
+
+import React from 'react';
+import { usePatternStore } from '../../store/usePatternStore';
+import { InsertType, SynthParameters } from '../../types/pattern';
+import {
+  FILTER_MODES,
+  getInsertLockKey,
+  getInsertParams,
+  INSERT_TYPES,
+  MAX_INSERTS
+} from '../../utils/insertEffects';
+import { Knob } from './Knob';
+
+interface InsertRackProps {
+  trackIndex: number;
+  lockStepIndex: number | null; // Step whose parameters edits lock, if any
+  stepLocks: Partial<SynthParameters> | null;
+}
+
+export const InsertRack: React.FC<InsertRackProps> = ({ trackIndex, lockStepIndex, stepLocks }) => {
+  const {
+    pattern,
+    addInsert,
+    removeInsert,
+    moveInsert,
+    toggleInsert,
+    setInsertParameter,
+    setStepParameter,
+    clearStepParameter
+  } = usePatternStore();
+  const track = pattern.tracks[trackIndex];
+
+  const handleChange = (insertId: string, param: string, value: number) => {
+    if (lockStepIndex !== null) {
+      setStepParameter(trackIndex, lockStepIndex, getInsertLockKey(insertId, param), value);
+    } else {
+      setInsertParameter(trackIndex, insertId, param, value);
+    }
+  };
+
+  return (
+    <div className="insert-rack">
+      <div className="insert-rack-header">
+        <span>Inserts</span>
+        <select
+          value=""
+          disabled={track.inserts.length >= MAX_INSERTS}
+          onChange={(e) => addInsert(trackIndex, e.target.value as InsertType)}
+          title={track.inserts.length >= MAX_INSERTS ? `Up to ${MAX_INSERTS} inserts per track` : 'Add an insert'}
+        >
+          <option value="" disabled>+ Add insert…</option>
+          {INSERT_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {track.inserts.length === 0 && (
+        <span className="tip">No inserts - the synth goes straight to the mixer</span>
+      )}
+
+      <div className="insert-slots">
+        {track.inserts.map((insert, index) => {
+          const label = INSERT_TYPES.find(type => type.value === insert.type)?.label ?? insert.type;
+          const valueOf = (param: string) =>
+            stepLocks?.[getInsertLockKey(insert.id, param)] ?? insert.params[param];
+          const isLocked = (param: string) =>
+            stepLocks?.[getInsertLockKey(insert.id, param)] !== undefined;
+
+          return (
+            <div key={insert.id} className={`insert-slot ${insert.enabled ? '' : 'bypassed'}`}>
+              <div className="insert-slot-header">
+                <button
+                  className={`insert-button insert-name ${insert.enabled ? 'active' : ''}`}
+                  onClick={() => toggleInsert(trackIndex, insert.id)}
+                  title={insert.enabled ? `Bypass ${label}` : `Enable ${label}`}
+                >
+                  {label}
+                </button>
+                <button
+                  className="insert-button"
+                  disabled={index === 0}
+                  onClick={() => moveInsert(trackIndex, insert.id, -1)}
+                  title="Move earlier in the chain"
+                >
+                  ◀
+                </button>
+                <button
+                  className="insert-button"
+                  disabled={index === track.inserts.length - 1}
+                  onClick={() => moveInsert(trackIndex, insert.id, 1)}
+                  title="Move later in the chain"
+                >
+                  ▶
+                </button>
+                <button
+                  className="insert-button"
+                  onClick={() => removeInsert(trackIndex, insert.id)}
+                  title="Remove insert and its step locks"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="insert-slot-params">
+                {getInsertParams(insert.type).map(param => {
+                  const resetParam = () => {
+                    if (lockStepIndex !== null) {
+                      clearStepParameter(trackIndex, lockStepIndex, getInsertLockKey(insert.id, param.key));
+                    } else {
+                      setInsertParameter(trackIndex, insert.id, param.key, param.default);
+                    }
+                  };
+
+                  // The filter mode is a choice, not a knob
+                  if (insert.type === 'filter' && param.key === 'mode') {
+                    return (
+                      <div
+                        key={param.key}
+                        className={`insert-modes ${isLocked(param.key) ? 'locked' : ''}`}
+                        onDoubleClick={resetParam}
+                      >
+                        {FILTER_MODES.map((mode, value) => (
+                          <button
+                            key={mode}
+                            className={`insert-button ${Math.round(valueOf(param.key)) === value ? 'active' : ''}`}
+                            onClick={() => handleChange(insert.id, param.key, value)}
+                          >
+                            {mode}
+                          </button>
+                        ))}
+                      </div>
+                    );
+                  }
+
+                  return (
+                    <Knob
+                      key={param.key}
+                      label={param.label}
+                      value={valueOf(param.key)}
+                      min={param.min}
+                      max={param.max}
+                      unit={param.unit}
+                      locked={isLocked(param.key)}
+                      onChange={(value) => handleChange(insert.id, param.key, value)}
+                      onReset={resetParam}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -11,6 +11,8 @@ interface KnobProps {
   onChange: (value: number) => void;
   unit?: string;
   step?: number;
+  locked?: boolean; // Value is a per-step parameter lock
+  onReset?: () => void; // Replaces the default double-click reset
 }
 
 export const Knob: React.FC<KnobProps> = ({
@@ -20,7 +22,9 @@ export const Knob: React.FC<KnobProps> = ({
   max,
   onChange,
   unit = '',
-  step = 0.01
+  step = 0.01,
+  locked = false,
+  onReset
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const startYRef = useRef(0);
@@ -73,6 +77,10 @@ export const Knob: React.FC<KnobProps> = ({
 
   // Double-click to reset to default (middle value)
   const handleDoubleClick = () => {
+    if (onReset) {
+      onReset();
+      return;
+    }
     const defaultValue = (min + max) / 2;
     onChange(defaultValue);
   };
@@ -81,7 +89,7 @@ export const Knob: React.FC<KnobProps> = ({
   const displayValue = unit === 'Hz' || unit === 'ms' ? Math.round(value) : value.toFixed(2);
 
   return (
-    <div className="knob-container">
+    <div className={`knob-container ${locked ? 'locked' : ''}`}>
       <div
         className={`knob ${isDragging ? 'dragging' : ''}`}
         onMouseDown={handleMouseDown}
@@ -4,6 +4,8 @@ import React from 'react';
 import { usePatternStore } from '../../store/usePatternStore';
 import { audioEngine } from '../../synthesis/AudioEngine';
 import { Knob } from './Knob';
+import { InsertRack } from './InsertRack';
+import { GrooveSelect } from '../GrooveSelect/GrooveSelect';
 import './SynthControls.css';
 
 interface SynthControlsProps {
@@ -11,17 +13,36 @@ interface SynthControlsProps {
 }
 
 export const SynthControls: React.FC<SynthControlsProps> = ({ selectedTrackIndex }) => {
-  const { pattern, setSynthParameter } = usePatternStore();
+  const {
+    pattern,
+    selectedStep,
+    setSynthParameter,
+    setStepParameter,
+    clearStepParameter,
+    clearStepParameters,
+    selectStep,
+    setTrackGroove,
+    setTrackGrooveAmount
+  } = usePatternStore();
   const track = pattern.tracks[selectedTrackIndex];
 
   if (!track) return null;
 
+  // A selected step on this track turns knob moves into parameter locks
+  const lockStepIndex = selectedStep?.trackIndex === selectedTrackIndex ? selectedStep.stepIndex : null;
+  const stepLocks = lockStepIndex !== null ? track.steps[lockStepIndex]?.parameters ?? {} : null;
+
   const handleParameterChange = (param: string, value: number) => {
+    if (lockStepIndex !== null) {
+      setStepParameter(selectedTrackIndex, lockStepIndex, param, value);
+      return;
+    }
+
     // Update store
     setSynthParameter(selectedTrackIndex, param, value);
 
     // Update audio engine in real-time
-    audioEngine.updateSynthParams(track.synthType, { [param]: value });
+    audioEngine.updateSynthParams(track.id, { [param]: value });
 
     // Log for debugging
     console.log(`Updated ${track.name} ${param}:`, value);
@@ -117,25 +138,78 @@ export const SynthControls: React.FC<SynthControlsProps> = ({ selectedTrackIndex
           <h3>{track.name}</h3>
           <span className="synth-type">{track.synthType} synthesis</span>
         </div>
+
+        <div className="track-groove">
+          <label>
+            Groove
+            <GrooveSelect
+              value={track.groove?.template ?? null}
+              onChange={(groove) => setTrackGroove(selectedTrackIndex, groove)}
+              allowFollow
+              className="track-groove-select"
+            />
+          </label>
+          {track.groove && (
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={track.groove.amount * 100}
+              onChange={(e) => setTrackGrooveAmount(selectedTrackIndex, parseInt(e.target.value) / 100)}
+              className="track-groove-amount"
+              title={`Groove amount: ${Math.round(track.groove.amount * 100)}%`}
+            />
+          )}
+        </div>
+
+        {lockStepIndex !== null && (
+          <div className="plock-status">
+            <span>P-Lock: Step {lockStepIndex + 1}</span>
+            <button
+              className="preset-button"
+              onClick={() => clearStepParameters(selectedTrackIndex, lockStepIndex)}
+            >
+              Clear Locks
+            </button>
+            <button className="preset-button" onClick={() => selectStep(null)}>
+              Done
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="synth-controls-grid">
-        {params.map((param) => (
-          <Knob
-            key={param.key}
-            label={param.label}
-            value={track.synthParams[param.key] ?? ((param.min + param.max) / 2)}
-            min={param.min}
-            max={param.max}
-            unit={param.unit}
-            onChange={(value) => handleParameterChange(param.key, value)}
-          />
-        ))}
+        {params.map((param) => {
+          const lockedValue = stepLocks?.[param.key];
+
+          return (
+            <Knob
+              key={param.key}
+              label={param.label}
+              value={lockedValue ?? track.synthParams[param.key] ?? ((param.min + param.max) / 2)}
+              min={param.min}
+              max={param.max}
+              unit={param.unit}
+              locked={lockedValue !== undefined}
+              onChange={(value) => handleParameterChange(param.key, value)}
+              onReset={lockStepIndex !== null
+                ? () => clearStepParameter(selectedTrackIndex, lockStepIndex, param.key)
+                : undefined}
+            />
+          );
+        })}
       </div>
 
+      <InsertRack
+        trackIndex={selectedTrackIndex}
+        lockStepIndex={lockStepIndex}
+        stepLocks={stepLocks}
+      />
+
       <div className="synth-controls-info">
         <button
           className="preset-button"
+          disabled={lockStepIndex !== null}
           onClick={() => {
             // Reset to defaults
             params.forEach(param => {
@@ -146,7 +220,11 @@ export const SynthControls: React.FC<SynthControlsProps> = ({ selectedTrackIndex
         >
           Reset to Default
         </button>
-        <span className="tip">Drag knobs to adjust • Double-click to reset</span>
+        <span className="tip">
+          {lockStepIndex !== null
+            ? 'Drag knobs to lock values on this step • Double-click to clear a lock'
+            : 'Drag knobs to adjust • Double-click to reset • Shift-click or hold a step to lock'}
+        </span>
       </div>
     </div>
   );
@@ -1,7 +1,13 @@
-// Transport controls - Play/Stop, BPM, Swing
+// Transport controls - Play/Stop, BPM, Groove, Meter
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { usePatternStore } from '../../store/usePatternStore';
+import { StepResolution } from '../../types/pattern';
+import { RecordMode, RecordVelocity } from '../../utils/liveRecording';
+import { addTap, getTapBpm } from '../../utils/tapTempo';
+import { formatTimeSignature, STEP_RESOLUTIONS, TIME_SIGNATURES } from '../../utils/patternTiming';
+import { GrooveSelect } from '../GrooveSelect/GrooveSelect';
+import { StyleGenerator } from '../StyleGenerator/StyleGenerator';
 import './Transport.css';
 
 interface TransportProps {
@@ -9,7 +15,56 @@ interface TransportProps {
 }
 
 export const Transport: React.FC<TransportProps> = ({ onPlayClick }) => {
-  const { isPlaying, bpm, pattern, setBpm, setSwing, clearPattern, randomizePattern } = usePatternStore();
+  const {
+    isPlaying,
+    bpm,
+    pattern,
+    playMode,
+    queuedPattern,
+    fillMode,
+    isRecording,
+    recordSettings,
+    setRecording,
+    setRecordSettings,
+    metronome,
+    metronomeVolume,
+    countInBars,
+    setMetronome,
+    setMetronomeVolume,
+    setCountInBars,
+    setPlayMode,
+    setFillMode,
+    cancelQueuedPattern,
+    setBpm,
+    setPatternGroove,
+    setGrooveAmount,
+    saveGrooveFromPattern,
+    savedGrooves,
+    deleteGroove,
+    setTimeSignature,
+    setStepResolution,
+    clearPattern,
+    randomizePattern,
+    setSeed,
+    rerollSeed
+  } = usePatternStore();
+  const [showGenerator, setShowGenerator] = useState(false);
+  const tapsRef = useRef<number[]>([]);
+
+  const handleTap = () => {
+    tapsRef.current = addTap(tapsRef.current, performance.now());
+    const tapped = getTapBpm(tapsRef.current);
+    if (tapped !== null) {
+      setBpm(tapped);
+    }
+  };
+
+  const handleExtractGroove = async () => {
+    const name = prompt('Name for the groove extracted from this pattern:', `${pattern.name} groove`);
+    if (name) {
+      await saveGrooveFromPattern(name);
+    }
+  };
 
   return (
     <div className="transport">
@@ -20,6 +75,46 @@ export const Transport: React.FC<TransportProps> = ({ onPlayClick }) => {
         >
           {isPlaying ? '⏸ Stop' : '▶ Play'}
         </button>
+
+        <button
+          className={`transport-button secondary ${fillMode ? 'active' : ''}`}
+          onClick={() => setFillMode(!fillMode)}
+          title="Fill mode - enables FILL conditional trigs"
+        >
+          Fill
+        </button>
+
+        <button
+          className={`transport-button record ${isRecording ? 'active' : ''}`}
+          onClick={() => setRecording(!isRecording)}
+          title="Record pad hits (keys A S D F J K L ;) into the pattern while playing"
+        >
+          ● Rec
+        </button>
+
+        <div className="transport-mode">
+          <button
+            className={playMode === 'pattern' ? 'active' : ''}
+            onClick={() => setPlayMode('pattern')}
+            title="Loop the current pattern"
+          >
+            Pattern
+          </button>
+          <button
+            className={playMode === 'song' ? 'active' : ''}
+            onClick={() => setPlayMode('song')}
+            title="Play the song arrangement"
+          >
+            Song
+          </button>
+        </div>
+
+        {queuedPattern && (
+          <div className="transport-queued" title="Switches at the end of the current loop">
+            Next: {queuedPattern.name}
+            <button onClick={cancelQueuedPattern} title="Cancel queued pattern">×</button>
+          </div>
+        )}
       </div>
 
       <div className="transport-section">
@@ -34,18 +129,155 @@ export const Transport: React.FC<TransportProps> = ({ onPlayClick }) => {
             className="transport-input"
           />
         </label>
+        <button
+          className="transport-button secondary"
+          onClick={handleTap}
+          title="Tap tempo - tap along to set the BPM"
+        >
+          Tap
+        </button>
+
+        <button
+          className={`transport-button secondary ${metronome ? 'active' : ''}`}
+          onClick={() => setMetronome(!metronome)}
+          title="Metronome"
+        >
+          Click
+        </button>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={metronomeVolume * 100}
+          onChange={(e) => setMetronomeVolume(parseInt(e.target.value) / 100)}
+          className="transport-slider"
+          title="Metronome volume"
+        />
+        <select
+          value={countInBars}
+          onChange={(e) => setCountInBars(parseInt(e.target.value))}
+          className="transport-select"
+          title="Count-in before playback and recording"
+        >
+          <option value={0}>No count-in</option>
+          <option value={1}>1 bar count-in</option>
+          <option value={2}>2 bar count-in</option>
+        </select>
+
+        <label>
+          Groove
+          <GrooveSelect
+            value={pattern.groove.template}
+            onChange={(groove) => groove && setPatternGroove(groove)}
+            className="transport-select"
+          />
+        </label>
 
         <label>
-          Swing
+          Amount
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={pattern.groove.amount * 100}
+            onChange={(e) => setGrooveAmount(parseInt(e.target.value) / 100)}
+            className="transport-slider"
+          />
+          <span className="transport-value">{Math.round(pattern.groove.amount * 100)}%</span>
+        </label>
+
+        <button
+          className="transport-button secondary"
+          onClick={handleExtractGroove}
+          title="Save a groove from this pattern's micro timing and velocities"
+        >
+          Extract
+        </button>
+
+        {savedGrooves.some(g => g.id === pattern.groove.template.id) && (
+          <button
+            className="transport-button secondary"
+            onClick={async () => {
+              if (confirm(`Delete groove "${pattern.groove.template.name}" from your library?`)) {
+                await deleteGroove(pattern.groove.template.id);
+              }
+            }}
+            title="Delete this groove from your library (patterns using it keep a copy)"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <div className="transport-section">
+        <label title="How far recorded hits move onto the grid - the rest is kept as micro timing">
+          Quantize
           <input
             type="range"
             min="0"
             max="100"
-            value={pattern.swing * 100}
-            onChange={(e) => setSwing(parseInt(e.target.value) / 100)}
+            value={recordSettings.quantize * 100}
+            onChange={(e) => setRecordSettings({ quantize: parseInt(e.target.value) / 100 })}
             className="transport-slider"
           />
-          <span className="transport-value">{Math.round(pattern.swing * 100)}%</span>
+          <span className="transport-value">{Math.round(recordSettings.quantize * 100)}%</span>
+        </label>
+
+        <select
+          value={recordSettings.mode}
+          onChange={(e) => setRecordSettings({ mode: e.target.value as RecordMode })}
+          className="transport-select"
+          title="Overdub adds to the pattern, replace clears each track on its first hit"
+        >
+          <option value="overdub">Overdub</option>
+          <option value="replace">Replace</option>
+        </select>
+
+        <select
+          value={recordSettings.velocity}
+          onChange={(e) => setRecordSettings({ velocity: e.target.value as RecordVelocity })}
+          className="transport-select"
+          title="Hit velocity"
+        >
+          <option value="shift">Shift = accent</option>
+          <option value="fixed">Fixed accent</option>
+        </select>
+      </div>
+
+      <div className="transport-section">
+        <label>
+          Meter
+          <select
+            value={formatTimeSignature(pattern.timeSignature)}
+            onChange={(e) => {
+              const signature = TIME_SIGNATURES.find(
+                ts => formatTimeSignature(ts) === e.target.value
+              );
+              if (signature) setTimeSignature(signature);
+            }}
+            className="transport-select"
+          >
+            {TIME_SIGNATURES.map((ts) => (
+              <option key={formatTimeSignature(ts)} value={formatTimeSignature(ts)}>
+                {formatTimeSignature(ts)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Step
+          <select
+            value={pattern.stepResolution}
+            onChange={(e) => setStepResolution(e.target.value as StepResolution)}
+            className="transport-select"
+          >
+            {STEP_RESOLUTIONS.map((res) => (
+              <option key={res.value} value={res.value}>
+                {res.label}
+              </option>
+            ))}
+          </select>
         </label>
       </div>
 
@@ -56,6 +288,30 @@ export const Transport: React.FC<TransportProps> = ({ onPlayClick }) => {
         <button className="transport-button secondary" onClick={randomizePattern}>
           Randomize
         </button>
+        <div className="transport-popover-anchor">
+          <button
+            className={`transport-button secondary ${showGenerator ? 'active' : ''}`}
+            onClick={() => setShowGenerator(!showGenerator)}
+            title="Generate a pattern in the style of your saved patterns"
+          >
+            Generate…
+          </button>
+          {showGenerator && <StyleGenerator onClose={() => setShowGenerator(false)} />}
+        </div>
+
+        <label title="Seed for probability, randomize and noise - the same seed always sounds the same">
+          Seed
+          <input
+            type="number"
+            min="0"
+            value={pattern.seed}
+            onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+            className="transport-input transport-seed"
+          />
+        </label>
+        <button className="transport-button secondary" onClick={rerollSeed} title="Re-roll seed">
+          🎲
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+// Live recording into the pattern store - overdub and replace takes
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { usePatternStore } from './usePatternStore';
+
+const initialState = usePatternStore.getState();
+
+const getActiveSteps = (trackIndex: number): number[] =>
+  usePatternStore.getState().pattern.tracks[trackIndex].steps
+    .map((step, index) => (step.active ? index : -1))
+    .filter(index => index !== -1);
+
+describe('live recording', () => {
+  beforeEach(() => {
+    usePatternStore.setState(initialState, true);
+
+    // Four on the floor on the kick, backbeat on the snare
+    const { toggleStep, setRecording } = usePatternStore.getState();
+    [0, 4, 8, 12].forEach(step => toggleStep(0, step));
+    [4, 12].forEach(step => toggleStep(1, step));
+    setRecording(true);
+  });
+
+  it('adds hits on top of the track in overdub mode', () => {
+    const { setRecordSettings, recordHit, advanceRecording } = usePatternStore.getState();
+    setRecordSettings({ mode: 'overdub' });
+
+    recordHit(0, 2, 90, 0, 2.1);
+    advanceRecording(20);
+
+    expect(getActiveSteps(0)).toEqual([0, 2, 4, 8, 12]);
+    expect(getActiveSteps(1)).toEqual([4, 12]);
+  });
+
+  it('clears steps only as the playhead reaches them in replace mode', () => {
+    const { setRecordSettings, recordHit, advanceRecording } = usePatternStore.getState();
+    setRecordSettings({ mode: 'replace' });
+
+    // The first hit clears nothing the playhead hasn't reached
+    recordHit(0, 2, 90, 0, 2.1);
+    expect(getActiveSteps(0)).toEqual([0, 2, 4, 8, 12]);
+
+    advanceRecording(4.6);
+    expect(getActiveSteps(0)).toEqual([0, 2, 8, 12]);
+
+    // A slightly early hit clears its step before landing on it
+    recordHit(0, 8, 90, 0, 7.8);
+    expect(getActiveSteps(0)).toEqual([0, 2, 8, 12]);
+
+    // Round the loop to just before the first hit's step
+    advanceRecording(17.4);
+    expect(getActiveSteps(0)).toEqual([2, 8]);
+
+    // Each pass of the take replaces the last one
+    advanceRecording(18);
+    expect(getActiveSteps(0)).toEqual([8]);
+
+    // Tracks not played in the take are left alone
+    expect(getActiveSteps(1)).toEqual([4, 12]);
+  });
+
+  it('clears steps in the order a reversed track plays them', () => {
+    const { setRecordSettings, setTrackDirection, recordHit, advanceRecording } = usePatternStore.getState();
+    setRecordSettings({ mode: 'replace' });
+    setTrackDirection(0, 'reverse');
+
+    // Step counts 2 to 4 play steps 13 to 11
+    recordHit(0, 14, 90, 0, 1);
+    advanceRecording(4);
+
+    expect(getActiveSteps(0)).toEqual([0, 4, 8, 14]);
+  });
+
+  it('starts a new take when recording is armed again', () => {
+    const { setRecordSettings, recordHit, advanceRecording, setRecording } = usePatternStore.getState();
+    setRecordSettings({ mode: 'replace' });
+
+    recordHit(0, 2, 90, 0, 2);
+    setRecording(false);
+    setRecording(true);
+    advanceRecording(6);
+
+    expect(getActiveSteps(0)).toEqual([0, 2, 4, 8, 12]);
+  });
+});
@@ -2,8 +2,42 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { Pattern, Track } from '../types/pattern';
+import {
+  Groove,
+  InsertType,
+  MasterSettings,
+  MuteQuantize,
+  MuteScene,
+  Pattern,
+  PlayDirection,
+  PlayMode,
+  Ratchet,
+  SendEffects,
+  SidechainSettings,
+  Song,
+  StepResolution,
+  TimeSignature,
+  Track,
+  TrigCondition
+} from '../types/pattern';
 import { patternStorage } from '../utils/patternStorage';
+import { clampTrackLength, createDefaultEffects, createDefaultMaster, createDefaultSidechain, createEmptySends, createEmptyStep, ensureTrackSteps, MAX_TRACK_LENGTH, normalizePattern } from '../utils/patternDefaults';
+import { getStepsPerBar } from '../utils/patternTiming';
+import { createDefaultGroove, extractGroove } from '../utils/grooves';
+import { createRandom, createSeed, MAX_SEED } from '../utils/random';
+import { buildStyleModel, getStepProbabilities, selectSourcePatterns, StyleOptions } from '../utils/styleModel';
+import { ACCENT_VELOCITY, EuclideanOptions, generateEuclidean, NORMAL_VELOCITY } from '../utils/euclidean';
+import { MAX_PITCH_RAMP, MAX_RATCHET_COUNT, MIN_RATCHET_COUNT } from '../utils/ratchets';
+import { DEFAULT_RECORD_SETTINGS, getPassedSteps, RecordSettings } from '../utils/liveRecording';
+import { captureMuteScene, MUTE_SCENE_COUNT, toggleSceneTrack } from '../utils/muteScenes';
+import { createInsert, MAX_INSERTS } from '../utils/insertEffects';
+import { createEmptySong, MAX_SONG_REPEATS, MIN_SONG_REPEATS } from '../utils/songArrangement';
+
+// Identifies one step of one track
+export interface StepRef {
+  trackIndex: number;
+  stepIndex: number;
+}
 
 interface PatternState {
   // Current pattern
@@ -13,62 +47,182 @@ interface PatternState {
   isPlaying: boolean;
   currentStep: number;
   bpm: number;
+  fillMode: boolean; // Performance state, not saved with the pattern
+  selectedStep: StepRef | null; // Parameter lock target
+  isRecording: boolean;
+  metronome: boolean;
+  metronomeVolume: number;
+  countInBars: number; // 0 (off), 1 or 2 bars of clicks before playback
+  recordSettings: RecordSettings;
+  recordedTracks: Record<number, number>; // Tracks hit during this take, by the step count reached since
 
   // Pattern library
   savedPatterns: Pattern[];
+  queuedPattern: Pattern | null; // Takes over at the end of the current loop
+
+  // User groove templates
+  savedGrooves: Groove[];
+
+  // Performance mutes - a live layer over the pattern's mute/solo
+  performanceMutes: boolean;
+  liveMutes: MuteScene;
+  pendingMutes: MuteScene | null; // Armed changes waiting for the next beat or bar
+  muteQuantize: MuteQuantize;
+  muteScenes: (MuteScene | null)[];
+
+  // Song mode
+  playMode: PlayMode;
+  song: Song;
+  savedSongs: Song[];
+  songPosition: string | null; // Playing SongEntry id
 
   // Actions
   toggleStep: (trackIndex: number, stepIndex: number) => void;
   setStepVelocity: (trackIndex: number, stepIndex: number, velocity: number) => void;
   setStepProbability: (trackIndex: number, stepIndex: number, probability: number) => void;
+  setStepCondition: (trackIndex: number, stepIndex: number, condition: TrigCondition | undefined) => void;
+  setStepRatchet: (trackIndex: number, stepIndex: number, ratchet: Ratchet | undefined) => void;
+  setStepSlide: (trackIndex: number, stepIndex: number, slide: boolean) => void;
+  setFillMode: (enabled: boolean) => void;
+  selectStep: (step: StepRef | null) => void;
+  setStepParameter: (trackIndex: number, stepIndex: number, param: string, value: number) => void;
+  clearStepParameter: (trackIndex: number, stepIndex: number, param: string) => void;
+  clearStepParameters: (trackIndex: number, stepIndex: number) => void;
   setBpm: (bpm: number) => void;
-  setSwing: (swing: number) => void;
+  setPatternGroove: (template: Groove) => void;
+  setGrooveAmount: (amount: number) => void;
+  setTrackGroove: (trackIndex: number, template: Groove | null) => void;
+  setTrackGrooveAmount: (trackIndex: number, amount: number) => void;
+  saveGrooveFromPattern: (name: string) => Promise<void>;
+  deleteGroove: (id: string) => Promise<void>;
+  loadSavedGrooves: () => Promise<void>;
+  setTimeSignature: (timeSignature: TimeSignature) => void;
+  setStepResolution: (resolution: StepResolution) => void;
   togglePlay: () => void;
+  setRecording: (enabled: boolean) => void;
+  setMetronome: (enabled: boolean) => void;
+  setMetronomeVolume: (volume: number) => void;
+  setCountInBars: (bars: number) => void;
+  setRecordSettings: (settings: Partial<RecordSettings>) => void;
+  recordHit: (trackIndex: number, stepIndex: number, velocity: number, microTiming: number, position: number) => void;
+  advanceRecording: (position: number) => void;
   setCurrentStep: (step: number) => void;
   setTrackVolume: (trackIndex: number, volume: number) => void;
+  setTrackPan: (trackIndex: number, pan: number) => void;
+  setMasterStage: <K extends keyof MasterSettings>(stage: K, changes: Partial<MasterSettings[K]>) => void;
+  setSendEffect: <K extends keyof SendEffects>(effect: K, changes: Partial<SendEffects[K]>) => void;
+  setTrackSend: (trackIndex: number, sendIndex: number, level: number) => void;
+  setSidechain: (changes: Partial<SidechainSettings>) => void;
+  toggleSidechainTrack: (trackId: string) => void;
+  toggleSidechainSend: (sendIndex: number) => void;
+  addInsert: (trackIndex: number, type: InsertType) => void;
+  removeInsert: (trackIndex: number, insertId: string) => void;
+  moveInsert: (trackIndex: number, insertId: string, offset: number) => void;
+  toggleInsert: (trackIndex: number, insertId: string) => void;
+  setInsertParameter: (trackIndex: number, insertId: string, param: string, value: number) => void;
+  setTrackLength: (trackIndex: number, length: number) => void;
+  setTrackDirection: (trackIndex: number, direction: PlayDirection) => void;
+  setPerformanceMutes: (enabled: boolean) => void;
+  togglePerformanceMute: (trackIndex: number) => void;
+  togglePerformanceSolo: (trackIndex: number) => void;
+  setMuteQuantize: (quantize: MuteQuantize) => void;
+  saveMuteScene: (slot: number) => void;
+  recallMuteScene: (slot: number) => void;
+  commitPendingMutes: (mutes: MuteScene) => void;
+  cancelPendingMutes: () => void;
   toggleMute: (trackIndex: number) => void;
   toggleSolo: (trackIndex: number) => void;
   setSynthParameter: (trackIndex: number, param: string, value: number) => void;
   clearPattern: () => void;
   randomizePattern: () => void;
+  applyEuclidean: (trackIndex: number, options: EuclideanOptions) => void;
+  generateFromLibrary: (options: StyleOptions) => void;
+  setSeed: (seed: number) => void;
+  rerollSeed: () => void;
 
   // Pattern management
   saveCurrentPattern: () => Promise<void>;
   loadPattern: (pattern: Pattern) => void;
+  queuePattern: (pattern: Pattern) => void;
+  cancelQueuedPattern: () => void;
+  commitQueuedPattern: (pattern: Pattern) => void;
   deletePattern: (id: string) => Promise<void>;
   loadSavedPatterns: () => Promise<void>;
   newPattern: () => void;
   setPatternName: (name: string) => void;
+  setPatternGenre: (genre: string) => void;
   duplicatePattern: () => void;
+
+  // Song management
+  setPlayMode: (mode: PlayMode) => void;
+  setSongName: (name: string) => void;
+  addSongEntry: (patternId: string) => void;
+  removeSongEntry: (index: number) => void;
+  moveSongEntry: (index: number, direction: -1 | 1) => void;
+  setSongEntryRepeats: (index: number, repeats: number) => void;
+  setSongPosition: (entryId: string | null, pattern?: Pattern) => void;
+  newSong: () => void;
+  loadSong: (song: Song) => void;
+  saveCurrentSong: () => Promise<void>;
+  deleteSong: (id: string) => Promise<void>;
+  loadSavedSongs: () => Promise<void>;
 }
 
+/**
+ * Resize the master loop to whole bars of a new meter, keeping the bar count.
+ * Tracks that followed the master loop length follow it to the new length.
+ */
+const applyMeter = (
+  pattern: Pattern,
+  timeSignature: TimeSignature,
+  resolution: StepResolution
+): void => {
+  const oldBar = getStepsPerBar(pattern.timeSignature, pattern.stepResolution);
+  const newBar = getStepsPerBar(timeSignature, resolution);
+  const maxBars = Math.max(1, Math.floor(MAX_TRACK_LENGTH / newBar));
+  const bars = Math.max(1, Math.min(maxBars, Math.round(pattern.steps / oldBar)));
+  const newSteps = clampTrackLength(bars * newBar);
+
+  pattern.tracks.forEach(track => {
+    if (track.length === pattern.steps) {
+      track.length = newSteps;
+      ensureTrackSteps(track);
+    }
+  });
+
+  pattern.timeSignature = timeSignature;
+  pattern.stepResolution = resolution;
+  pattern.steps = newSteps;
+};
+
 const createDefaultPattern = (): Pattern => {
   const defaultTracks: Track[] = [
-    { id: '0', name: 'Kick', synthType: 'kick', volume: 1, mute: false, solo: false, steps: [], synthParams: { pitch: 60, decay: 0.5, tone: 0.5 } },
-    { id: '1', name: 'Snare', synthType: 'snare', volume: 0.8, mute: false, solo: false, steps: [], synthParams: { pitch: 200, decay: 0.15, tone: 0.5 } },
-    { id: '2', name: 'Closed HH', synthType: 'hihat', volume: 0.6, mute: false, solo: false, steps: [], synthParams: { pitch: 8000, decay: 0.05, tone: 0.7 } },
-    { id: '3', name: 'Open HH', synthType: 'hihat', volume: 0.5, mute: false, solo: false, steps: [], synthParams: { pitch: 8000, decay: 0.15, tone: 0.6 } },
-    { id: '4', name: 'Clap', synthType: 'clap', volume: 0.7, mute: false, solo: false, steps: [], synthParams: { pitch: 1000, decay: 0.1, tone: 0.6 } },
-    { id: '5', name: 'Rim', synthType: 'rim', volume: 0.7, mute: false, solo: false, steps: [], synthParams: { pitch: 400, decay: 0.08, tone: 0.7 } },
-    { id: '6', name: 'Tom', synthType: 'tom', volume: 0.8, mute: false, solo: false, steps: [], synthParams: { pitch: 150, decay: 0.4, tone: 0.5 } },
-    { id: '7', name: 'Perc', synthType: 'perc1', volume: 0.6, mute: false, solo: false, steps: [], synthParams: { pitch: 300, decay: 0.12, tone: 0.5 } },
+    { id: '0', name: 'Kick', synthType: 'kick', volume: 1, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 60, decay: 0.5, tone: 0.5 } },
+    { id: '1', name: 'Snare', synthType: 'snare', volume: 0.8, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 200, decay: 0.15, tone: 0.5 } },
+    { id: '2', name: 'Closed HH', synthType: 'hihat', volume: 0.6, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 8000, decay: 0.05, tone: 0.7 } },
+    { id: '3', name: 'Open HH', synthType: 'hihat', volume: 0.5, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 8000, decay: 0.15, tone: 0.6 } },
+    { id: '4', name: 'Clap', synthType: 'clap', volume: 0.7, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 1000, decay: 0.1, tone: 0.6 } },
+    { id: '5', name: 'Rim', synthType: 'rim', volume: 0.7, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 400, decay: 0.08, tone: 0.7 } },
+    { id: '6', name: 'Tom', synthType: 'tom', volume: 0.8, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 150, decay: 0.4, tone: 0.5 } },
+    { id: '7', name: 'Perc', synthType: 'perc1', volume: 0.6, pan: 0, sends: createEmptySends(), inserts: [], mute: false, solo: false, length: 16, steps: [], synthParams: { pitch: 300, decay: 0.12, tone: 0.5 } },
   ];
 
   // Initialize 16 steps for each track
   defaultTracks.forEach(track => {
-    track.steps = Array.from({ length: 16 }, () => ({
-      active: false,
-      velocity: 100,
-      probability: 1.0,
-      microTiming: 0,
-    }));
+    track.steps = Array.from({ length: track.length }, createEmptyStep);
   });
 
   return {
     id: crypto.randomUUID(),
     name: 'New Pattern',
     bpm: 120,
-    swing: 0,
+    groove: createDefaultGroove(),
+    timeSignature: { numerator: 4, denominator: 4 },
+    stepResolution: '16n',
+    seed: createSeed(),
+    master: createDefaultMaster(),
+    effects: createDefaultEffects(),
+    sidechain: createDefaultSidechain(),
     tracks: defaultTracks,
     steps: 16,
     created: Date.now(),
@@ -76,13 +230,65 @@ const createDefaultPattern = (): Pattern => {
   };
 };
 
+/**
+ * Move the take on to a step position. In replace mode, tracks already played
+ * in the take lose each step as the playhead reaches it, so a take overwrites
+ * only what it plays over; hits recorded after that land on the cleared steps.
+ * @param position - Fractional step count, as from Sequencer.getStepPosition
+ */
+const clearPassedSteps = (state: PatternState, position: number): void => {
+  const reached = Math.round(position);
+
+  Object.keys(state.recordedTracks).map(Number).forEach(trackIndex => {
+    const track = state.pattern.tracks[trackIndex];
+    if (track && state.recordSettings.mode === 'replace') {
+      const from = state.recordedTracks[trackIndex];
+      getPassedSteps(track, trackIndex, state.pattern.seed, from, reached).forEach(stepIndex => {
+        track.steps[stepIndex].active = false;
+      });
+    }
+    state.recordedTracks[trackIndex] = reached;
+  });
+};
+
+/**
+ * Apply performance mutes now, or arm them for the next beat or bar while playing
+ */
+const applyLiveMutes = (state: PatternState, mutes: MuteScene): void => {
+  if (state.muteQuantize === 'instant' || !state.isPlaying) {
+    state.liveMutes = mutes;
+    state.pendingMutes = null;
+  } else {
+    state.pendingMutes = mutes;
+  }
+};
+
 export const usePatternStore = create<PatternState>()(
   immer((set, get) => ({
     pattern: createDefaultPattern(),
     isPlaying: false,
     currentStep: 0,
     bpm: 120,
+    fillMode: false,
+    selectedStep: null,
+    isRecording: false,
+    metronome: false,
+    metronomeVolume: 0.5,
+    countInBars: 0,
+    recordSettings: DEFAULT_RECORD_SETTINGS,
+    recordedTracks: {},
     savedPatterns: [],
+    queuedPattern: null,
+    savedGrooves: [],
+    performanceMutes: false,
+    liveMutes: { mute: [], solo: [] },
+    pendingMutes: null,
+    muteQuantize: 'bar',
+    muteScenes: new Array(MUTE_SCENE_COUNT).fill(null),
+    playMode: 'pattern',
+    song: createEmptySong(),
+    savedSongs: [],
+    songPosition: null,
 
     toggleStep: (trackIndex, stepIndex) =>
       set((state) => {
@@ -100,15 +306,113 @@ export const usePatternStore = create<PatternState>()(
         state.pattern.tracks[trackIndex].steps[stepIndex].probability = Math.max(0, Math.min(1, probability));
       }),
 
+    setStepCondition: (trackIndex, stepIndex, condition) =>
+      set((state) => {
+        const step = state.pattern.tracks[trackIndex].steps[stepIndex];
+        if (condition) {
+          step.condition = condition;
+        } else {
+          delete step.condition;
+        }
+      }),
+
+    setStepRatchet: (trackIndex, stepIndex, ratchet) =>
+      set((state) => {
+        const step = state.pattern.tracks[trackIndex].steps[stepIndex];
+        if (ratchet && ratchet.count >= MIN_RATCHET_COUNT) {
+          step.ratchet = {
+            count: Math.min(MAX_RATCHET_COUNT, Math.round(ratchet.count)),
+            velocityRamp: ratchet.velocityRamp,
+            pitchRamp: Math.max(-MAX_PITCH_RAMP, Math.min(MAX_PITCH_RAMP, ratchet.pitchRamp)),
+          };
+        } else {
+          delete step.ratchet;
+        }
+      }),
+
+    setStepSlide: (trackIndex, stepIndex, slide) =>
+      set((state) => {
+        const step = state.pattern.tracks[trackIndex].steps[stepIndex];
+        if (slide) {
+          step.slide = true;
+        } else {
+          delete step.slide;
+        }
+      }),
+
+    setFillMode: (enabled) =>
+      set((state) => {
+        state.fillMode = enabled;
+      }),
+
+    selectStep: (step) =>
+      set((state) => {
+        state.selectedStep = step;
+      }),
+
+    setStepParameter: (trackIndex, stepIndex, param, value) =>
+      set((state) => {
+        const step = state.pattern.tracks[trackIndex].steps[stepIndex];
+        step.parameters = { ...step.parameters, [param]: value };
+      }),
+
+    clearStepParameter: (trackIndex, stepIndex, param) =>
+      set((state) => {
+        const step = state.pattern.tracks[trackIndex].steps[stepIndex];
+        if (!step.parameters) return;
+        delete step.parameters[param];
+        if (Object.keys(step.parameters).length === 0) {
+          delete step.parameters;
+        }
+      }),
+
+    clearStepParameters: (trackIndex, stepIndex) =>
+      set((state) => {
+        delete state.pattern.tracks[trackIndex].steps[stepIndex].parameters;
+      }),
+
     setBpm: (bpm) =>
       set((state) => {
         state.pattern.bpm = Math.max(60, Math.min(300, bpm));
         state.bpm = state.pattern.bpm;
       }),
 
-    setSwing: (swing) =>
+    setPatternGroove: (template) =>
+      set((state) => {
+        state.pattern.groove.template = template;
+      }),
+
+    setGrooveAmount: (amount) =>
+      set((state) => {
+        state.pattern.groove.amount = Math.max(0, Math.min(1, amount));
+      }),
+
+    setTrackGroove: (trackIndex, template) =>
+      set((state) => {
+        const track = state.pattern.tracks[trackIndex];
+        if (template) {
+          track.groove = { template, amount: track.groove?.amount ?? 1 };
+        } else {
+          delete track.groove;
+        }
+      }),
+
+    setTrackGrooveAmount: (trackIndex, amount) =>
+      set((state) => {
+        const groove = state.pattern.tracks[trackIndex].groove;
+        if (groove) {
+          groove.amount = Math.max(0, Math.min(1, amount));
+        }
+      }),
+
+    setTimeSignature: (timeSignature) =>
+      set((state) => {
+        applyMeter(state.pattern, timeSignature, state.pattern.stepResolution);
+      }),
+
+    setStepResolution: (resolution) =>
       set((state) => {
-        state.pattern.swing = Math.max(0, Math.min(1, swing));
+        applyMeter(state.pattern, state.pattern.timeSignature, resolution);
       }),
 
     togglePlay: () =>
@@ -116,9 +420,74 @@ export const usePatternStore = create<PatternState>()(
         state.isPlaying = !state.isPlaying;
         if (!state.isPlaying) {
           state.currentStep = 0;
+          state.songPosition = null;
+          state.recordedTracks = {};
+
+          // Armed mutes can't wait for a downbeat once stopped
+          if (state.pendingMutes) {
+            state.liveMutes = state.pendingMutes;
+            state.pendingMutes = null;
+          }
+
+          // A pattern cued but not reached yet is loaded on stop
+          if (state.queuedPattern) {
+            state.pattern = state.queuedPattern;
+            state.bpm = state.queuedPattern.bpm;
+            state.queuedPattern = null;
+            state.selectedStep = null;
+          }
         }
       }),
 
+    setRecording: (enabled) =>
+      set((state) => {
+        state.isRecording = enabled;
+        state.recordedTracks = {};
+      }),
+
+    setMetronome: (enabled) =>
+      set((state) => {
+        state.metronome = enabled;
+      }),
+
+    setMetronomeVolume: (volume) =>
+      set((state) => {
+        state.metronomeVolume = Math.max(0, Math.min(1, volume));
+      }),
+
+    setCountInBars: (bars) =>
+      set((state) => {
+        state.countInBars = Math.max(0, Math.min(2, Math.round(bars)));
+      }),
+
+    setRecordSettings: (settings) =>
+      set((state) => {
+        Object.assign(state.recordSettings, settings);
+        state.recordSettings.quantize = Math.max(0, Math.min(1, state.recordSettings.quantize));
+      }),
+
+    recordHit: (trackIndex, stepIndex, velocity, microTiming, position) =>
+      set((state) => {
+        const track = state.pattern.tracks[trackIndex];
+        if (!track) return;
+
+        // Clear up to the hit first, so replace mode can't clear the hit itself
+        clearPassedSteps(state, position);
+        if (state.recordedTracks[trackIndex] === undefined) {
+          state.recordedTracks[trackIndex] = Math.round(position);
+        }
+
+        const step = track.steps[stepIndex];
+        step.active = true;
+        step.velocity = velocity;
+        step.microTiming = microTiming;
+      }),
+
+    advanceRecording: (position) =>
+      set((state) => {
+        clearPassedSteps(state, position);
+      }),
+
     setCurrentStep: (step) =>
       set((state) => {
         state.currentStep = step % state.pattern.steps;
@@ -129,6 +498,167 @@ export const usePatternStore = create<PatternState>()(
         state.pattern.tracks[trackIndex].volume = Math.max(0, Math.min(1, volume));
       }),
 
+    setTrackPan: (trackIndex, pan) =>
+      set((state) => {
+        state.pattern.tracks[trackIndex].pan = Math.max(-1, Math.min(1, pan));
+      }),
+
+    setMasterStage: (stage, changes) =>
+      set((state) => {
+        Object.assign(state.pattern.master[stage], changes);
+      }),
+
+    setSendEffect: (effect, changes) =>
+      set((state) => {
+        Object.assign(state.pattern.effects[effect], changes);
+      }),
+
+    setTrackSend: (trackIndex, sendIndex, level) =>
+      set((state) => {
+        const sends = state.pattern.tracks[trackIndex].sends;
+        if (sendIndex < 0 || sendIndex >= sends.length) return;
+        sends[sendIndex] = Math.max(0, Math.min(1, level));
+      }),
+
+    setSidechain: (changes) =>
+      set((state) => {
+        const sidechain = state.pattern.sidechain;
+        Object.assign(sidechain, changes);
+        // A track can't duck itself
+        sidechain.tracks = sidechain.tracks.filter(id => id !== sidechain.source);
+      }),
+
+    toggleSidechainTrack: (trackId) =>
+      set((state) => {
+        const sidechain = state.pattern.sidechain;
+        if (trackId === sidechain.source) return;
+        sidechain.tracks = sidechain.tracks.includes(trackId)
+          ? sidechain.tracks.filter(id => id !== trackId)
+          : [...sidechain.tracks, trackId];
+      }),
+
+    toggleSidechainSend: (sendIndex) =>
+      set((state) => {
+        const sidechain = state.pattern.sidechain;
+        sidechain.sends = sidechain.sends.includes(sendIndex)
+          ? sidechain.sends.filter(i => i !== sendIndex)
+          : [...sidechain.sends, sendIndex];
+      }),
+
+    addInsert: (trackIndex, type) =>
+      set((state) => {
+        const inserts = state.pattern.tracks[trackIndex].inserts;
+        if (inserts.length >= MAX_INSERTS) return;
+        inserts.push(createInsert(type));
+      }),
+
+    removeInsert: (trackIndex, insertId) =>
+      set((state) => {
+        const track = state.pattern.tracks[trackIndex];
+        track.inserts = track.inserts.filter(insert => insert.id !== insertId);
+
+        // Drop the removed insert's step locks
+        track.steps.forEach(step => {
+          const parameters = step.parameters;
+          if (!parameters) return;
+          Object.keys(parameters).forEach(key => {
+            if (key.startsWith(`${insertId}.`)) delete parameters[key];
+          });
+          if (Object.keys(parameters).length === 0) {
+            delete step.parameters;
+          }
+        });
+      }),
+
+    moveInsert: (trackIndex, insertId, offset) =>
+      set((state) => {
+        const inserts = state.pattern.tracks[trackIndex].inserts;
+        const from = inserts.findIndex(insert => insert.id === insertId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= inserts.length) return;
+        const [insert] = inserts.splice(from, 1);
+        inserts.splice(to, 0, insert);
+      }),
+
+    toggleInsert: (trackIndex, insertId) =>
+      set((state) => {
+        const insert = state.pattern.tracks[trackIndex].inserts.find(i => i.id === insertId);
+        if (insert) insert.enabled = !insert.enabled;
+      }),
+
+    setInsertParameter: (trackIndex, insertId, param, value) =>
+      set((state) => {
+        const insert = state.pattern.tracks[trackIndex].inserts.find(i => i.id === insertId);
+        if (insert) insert.params[param] = value;
+      }),
+
+    setTrackLength: (trackIndex, length) =>
+      set((state) => {
+        const track = state.pattern.tracks[trackIndex];
+        track.length = clampTrackLength(length);
+        ensureTrackSteps(track);
+      }),
+
+    setTrackDirection: (trackIndex, direction) =>
+      set((state) => {
+        state.pattern.tracks[trackIndex].direction = direction;
+      }),
+
+    setPerformanceMutes: (enabled) =>
+      set((state) => {
+        state.performanceMutes = enabled;
+        state.pendingMutes = null;
+        // Start from the pattern's own mutes
+        if (enabled) {
+          state.liveMutes = captureMuteScene(state.pattern);
+        }
+      }),
+
+    togglePerformanceMute: (trackIndex) =>
+      set((state) => {
+        applyLiveMutes(state, toggleSceneTrack(state.pendingMutes ?? state.liveMutes, 'mute', trackIndex));
+      }),
+
+    togglePerformanceSolo: (trackIndex) =>
+      set((state) => {
+        applyLiveMutes(state, toggleSceneTrack(state.pendingMutes ?? state.liveMutes, 'solo', trackIndex));
+      }),
+
+    setMuteQuantize: (quantize) =>
+      set((state) => {
+        state.muteQuantize = quantize;
+      }),
+
+    saveMuteScene: (slot) =>
+      set((state) => {
+        state.muteScenes[slot] = state.performanceMutes
+          ? state.liveMutes
+          : captureMuteScene(state.pattern);
+      }),
+
+    recallMuteScene: (slot) =>
+      set((state) => {
+        const scene = state.muteScenes[slot];
+        if (!scene) return;
+
+        if (!state.performanceMutes) {
+          state.performanceMutes = true;
+          state.liveMutes = captureMuteScene(state.pattern);
+        }
+        applyLiveMutes(state, scene);
+      }),
+
+    commitPendingMutes: (mutes) =>
+      set((state) => {
+        state.liveMutes = mutes;
+        state.pendingMutes = null;
+      }),
+
+    cancelPendingMutes: () =>
+      set((state) => {
+        state.pendingMutes = null;
+      }),
+
     toggleMute: (trackIndex) =>
       set((state) => {
         state.pattern.tracks[trackIndex].mute = !state.pattern.tracks[trackIndex].mute;
@@ -155,23 +685,78 @@ export const usePatternStore = create<PatternState>()(
 
     randomizePattern: () =>
       set((state) => {
+        // Each randomize rolls a new seed, so the result can be reproduced from it
+        state.pattern.seed = createSeed();
+        const random = createRandom(state.pattern.seed);
+
         state.pattern.tracks.forEach((track, trackIndex) => {
-          track.steps.forEach((step) => {
+          track.steps.slice(0, track.length).forEach((step) => {
             // Different densities for different drums
             const density = trackIndex === 0 ? 0.3 : // Kick - sparse
                           trackIndex === 1 ? 0.2 : // Snare - sparse
                           trackIndex === 2 ? 0.5 : // Closed HH - medium
                           0.25; // Others - sparse to medium
 
-            step.active = Math.random() < density;
+            step.active = random() < density;
             if (step.active) {
-              step.velocity = 80 + Math.floor(Math.random() * 47); // 80-127
-              step.probability = 0.7 + Math.random() * 0.3; // 0.7-1.0
+              step.velocity = 80 + Math.floor(random() * 47); // 80-127
+              step.probability = 0.7 + random() * 0.3; // 0.7-1.0
             }
           });
         });
       }),
 
+    applyEuclidean: (trackIndex, options) =>
+      set((state) => {
+        const track = state.pattern.tracks[trackIndex];
+        track.length = clampTrackLength(options.steps);
+        ensureTrackSteps(track);
+
+        // Only on/off and velocity change - locks and conditions stay in place
+        generateEuclidean({ ...options, steps: track.length }).forEach((generated, i) => {
+          const step = track.steps[i];
+          step.active = generated.active;
+          if (generated.active) {
+            step.velocity = generated.accent ? ACCENT_VELOCITY : NORMAL_VELOCITY;
+          }
+        });
+      }),
+
+    generateFromLibrary: (options) =>
+      set((state) => {
+        const sources = selectSourcePatterns(state.savedPatterns, options.genre);
+        if (sources.length === 0) return;
+
+        // Like randomize, a new seed makes the result reproducible
+        state.pattern.seed = createSeed();
+        const random = createRandom(state.pattern.seed);
+        const model = buildStyleModel(sources, state.pattern.tracks.map(track => track.length));
+
+        state.pattern.tracks.forEach((track, trackIndex) => {
+          const trackModel = model.tracks[trackIndex];
+          const probabilities = getStepProbabilities(trackModel, options);
+
+          track.steps.slice(0, track.length).forEach((step, i) => {
+            step.active = random() < probabilities[i];
+            if (step.active) {
+              // Learned velocity with a little human variation
+              const velocity = trackModel.velocity[i] + (random() - 0.5) * 20;
+              step.velocity = Math.max(1, Math.min(127, Math.round(velocity)));
+            }
+          });
+        });
+      }),
+
+    setSeed: (seed) =>
+      set((state) => {
+        state.pattern.seed = Math.max(0, Math.min(MAX_SEED, Math.floor(seed)));
+      }),
+
+    rerollSeed: () =>
+      set((state) => {
+        state.pattern.seed = createSeed();
+      }),
+
     // Pattern management actions
     saveCurrentPattern: async () => {
       const pattern = get().pattern;
@@ -182,10 +767,32 @@ export const usePatternStore = create<PatternState>()(
 
     loadPattern: (pattern) =>
       set((state) => {
-        state.pattern = pattern;
-        state.bpm = pattern.bpm;
+        state.pattern = normalizePattern(pattern);
+        state.bpm = state.pattern.bpm;
         state.isPlaying = false;
         state.currentStep = 0;
+        state.queuedPattern = null;
+        state.selectedStep = null;
+      }),
+
+    queuePattern: (pattern) =>
+      set((state) => {
+        state.queuedPattern = normalizePattern(pattern);
+      }),
+
+    cancelQueuedPattern: () =>
+      set((state) => {
+        state.queuedPattern = null;
+      }),
+
+    commitQueuedPattern: (pattern) =>
+      set((state) => {
+        state.pattern = pattern;
+        state.selectedStep = null;
+        state.bpm = pattern.bpm;
+        if (state.queuedPattern?.id === pattern.id) {
+          state.queuedPattern = null;
+        }
       }),
 
     deletePattern: async (id) => {
@@ -206,6 +813,8 @@ export const usePatternStore = create<PatternState>()(
         state.bpm = 120;
         state.isPlaying = false;
         state.currentStep = 0;
+        state.queuedPattern = null;
+        state.selectedStep = null;
       }),
 
     setPatternName: (name) =>
@@ -213,6 +822,11 @@ export const usePatternStore = create<PatternState>()(
         state.pattern.name = name;
       }),
 
+    setPatternGenre: (genre) =>
+      set((state) => {
+        state.pattern.genre = genre || undefined;
+      }),
+
     duplicatePattern: () =>
       set((state) => {
         const newPattern = {
@@ -223,5 +837,111 @@ export const usePatternStore = create<PatternState>()(
         };
         state.pattern = newPattern;
       }),
+
+    // Groove management actions
+    saveGrooveFromPattern: async (name) => {
+      const groove = extractGroove(get().pattern, name);
+      await patternStorage.saveGroove(groove);
+      await get().loadSavedGrooves();
+      get().setPatternGroove(groove);
+    },
+
+    deleteGroove: async (id) => {
+      await patternStorage.deleteGroove(id);
+      await get().loadSavedGrooves();
+    },
+
+    loadSavedGrooves: async () => {
+      const grooves = await patternStorage.getAllGrooves();
+      set((state) => {
+        state.savedGrooves = grooves;
+      });
+    },
+
+    // Song management actions
+    setPlayMode: (mode) =>
+      set((state) => {
+        if (state.playMode === mode) return;
+        state.playMode = mode;
+        state.isPlaying = false;
+        state.queuedPattern = null;
+        state.currentStep = 0;
+        state.songPosition = null;
+      }),
+
+    setSongName: (name) =>
+      set((state) => {
+        state.song.name = name;
+      }),
+
+    addSongEntry: (patternId) =>
+      set((state) => {
+        state.song.entries.push({ id: crypto.randomUUID(), patternId, repeats: 1 });
+      }),
+
+    removeSongEntry: (index) =>
+      set((state) => {
+        state.song.entries.splice(index, 1);
+      }),
+
+    moveSongEntry: (index, direction) =>
+      set((state) => {
+        const target = index + direction;
+        if (target < 0 || target >= state.song.entries.length) return;
+        const [entry] = state.song.entries.splice(index, 1);
+        state.song.entries.splice(target, 0, entry);
+      }),
+
+    setSongEntryRepeats: (index, repeats) =>
+      set((state) => {
+        state.song.entries[index].repeats =
+          Math.max(MIN_SONG_REPEATS, Math.min(MAX_SONG_REPEATS, Math.round(repeats)));
+      }),
+
+    setSongPosition: (entryId, pattern) =>
+      set((state) => {
+        state.songPosition = entryId;
+        if (pattern && pattern.id !== state.pattern.id) {
+          state.selectedStep = null;
+        }
+        if (pattern) {
+          // Show the playing pattern without stopping the transport
+          state.pattern = pattern;
+          state.bpm = pattern.bpm;
+        }
+      }),
+
+    newSong: () =>
+      set((state) => {
+        state.song = createEmptySong();
+        state.isPlaying = state.playMode === 'song' ? false : state.isPlaying;
+        state.songPosition = null;
+      }),
+
+    loadSong: (song) =>
+      set((state) => {
+        state.song = song;
+        state.isPlaying = state.playMode === 'song' ? false : state.isPlaying;
+        state.songPosition = null;
+      }),
+
+    saveCurrentSong: async () => {
+      const song = get().song;
+      await patternStorage.saveSong(song);
+      await get().loadSavedSongs();
+      console.log('Song saved:', song.name);
+    },
+
+    deleteSong: async (id) => {
+      await patternStorage.deleteSong(id);
+      await get().loadSavedSongs();
+    },
+
+    loadSavedSongs: async () => {
+      const songs = await patternStorage.getAllSongs();
+      set((state) => {
+        state.savedSongs = songs;
+      });
+    },
   }))
 );
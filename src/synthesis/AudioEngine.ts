@@ -1,18 +1,14 @@
-// Main audio engine manager - handles AudioContext and synth instances
+// Main audio engine manager - handles the AudioContext, the live audio graph and the metronome
 
-import { KickSynth } from './engines/KickSynth';
-import { SnareSynth } from './engines/SnareSynth';
-import { HiHatSynth } from './engines/HiHatSynth';
-import { ClapSynth } from './engines/ClapSynth';
-import { RimSynth } from './engines/RimSynth';
-import { TomSynth } from './engines/TomSynth';
-import { PercSynth } from './engines/PercSynth';
-import { BaseDrumSynth } from './engines/BaseDrumSynth';
+import { ParameterSlide } from './engines/BaseDrumSynth';
+import { AudioGraph } from './AudioGraph';
+import { loadInsertWorklets } from './inserts/insertWorklets';
+import { MasterSettings, SendEffects, SidechainSettings, SynthParameters, Track } from '../types/pattern';
 
 export class AudioEngine {
   private context: AudioContext | null = null;
-  private masterGain: GainNode | null = null;
-  private synths: Map<string, BaseDrumSynth> = new Map();
+  private graph: AudioGraph | null = null;
+  private metronomeGain: GainNode | null = null;
   private initialized = false;
 
   /**
@@ -25,13 +21,16 @@ export class AudioEngine {
     // Create AudioContext
     this.context = new AudioContext();
 
-    // Create master gain
-    this.masterGain = this.context.createGain();
-    this.masterGain.gain.value = 0.8;
-    this.masterGain.connect(this.context.destination);
+    // Worklet processors for inserts have to be in place before tracks sync
+    await loadInsertWorklets(this.context);
 
-    // Initialize synthesizers for each track type
-    this.initializeSynths();
+    // Synths, mixer and master chain - synths are created per track by syncTracks
+    this.graph = new AudioGraph(this.context, this.context.destination);
+
+    // Metronome bypasses the master bus so its level is independent
+    this.metronomeGain = this.context.createGain();
+    this.metronomeGain.gain.value = 0.5;
+    this.metronomeGain.connect(this.context.destination);
 
     // Resume context if suspended (required by browser autoplay policy)
     if (this.context.state === 'suspended') {
@@ -45,75 +44,110 @@ export class AudioEngine {
     });
   }
 
-  private initializeSynths(): void {
-    if (!this.context || !this.masterGain) return;
-
-    // Create all synth instances
-    const kickSynth = new KickSynth(this.context);
-    const snareSynth = new SnareSynth(this.context);
-    const hihatSynth = new HiHatSynth(this.context);
-    const clapSynth = new ClapSynth(this.context);
-    const rimSynth = new RimSynth(this.context);
-    const tomSynth = new TomSynth(this.context);
-    const perc1Synth = new PercSynth(this.context);
-    const perc2Synth = new PercSynth(this.context);
-
-    // Connect all to master
-    kickSynth.connect(this.masterGain);
-    snareSynth.connect(this.masterGain);
-    hihatSynth.connect(this.masterGain);
-    clapSynth.connect(this.masterGain);
-    rimSynth.connect(this.masterGain);
-    tomSynth.connect(this.masterGain);
-    perc1Synth.connect(this.masterGain);
-    perc2Synth.connect(this.masterGain);
-
-    // Store by type
-    this.synths.set('kick', kickSynth);
-    this.synths.set('snare', snareSynth);
-    this.synths.set('hihat', hihatSynth);
-    this.synths.set('clap', clapSynth);
-    this.synths.set('rim', rimSynth);
-    this.synths.set('tom', tomSynth);
-    this.synths.set('perc1', perc1Synth);
-    this.synths.set('perc2', perc2Synth);
+  /**
+   * Give every track its own synth and channel, see AudioGraph.syncTracks
+   */
+  syncTracks(tracks: Pick<Track, 'id' | 'synthType' | 'synthParams' | 'inserts' | 'volume' | 'pan' | 'sends'>[]): void {
+    this.graph?.syncTracks(tracks);
+  }
 
-    console.log('Initialized 8 synthesis engines');
+  /**
+   * Silence or restore a track's channel, including sound already playing
+   */
+  setTrackMute(trackId: string, muted: boolean): void {
+    this.graph?.setTrackMute(trackId, muted);
   }
 
   /**
-   * Trigger a drum sound
+   * Trigger a track's drum sound
+   * @param time - Audio context time to trigger at (defaults to now)
+   * @param slide - Parameter targets to glide towards after the hit
    */
   triggerDrum(
+    trackId: string,
     synthType: string,
     velocity: number,
-    params?: any
+    params?: Partial<SynthParameters>,
+    time?: number,
+    slide?: ParameterSlide
   ): void {
-    if (!this.context || !this.initialized) {
+    if (!this.context || !this.graph || !this.initialized) {
       console.warn('Audio engine not initialized');
       return;
     }
 
-    const synth = this.synths.get(synthType);
-    if (!synth) {
-      console.warn(`Synth type not found: ${synthType}`);
-      return;
-    }
+    // Never schedule in the past - late events play immediately
+    const triggerTime = Math.max(time ?? this.context.currentTime, this.context.currentTime);
+    this.graph.trigger(trackId, synthType, velocity, params, triggerTime, slide);
+  }
 
-    const time = this.context.currentTime;
-    synth.trigger(time, velocity / 127, params);
+  /**
+   * Schedule a metronome click - higher and louder on the downbeat
+   */
+  triggerClick(time: number, accent: boolean): void {
+    if (!this.context || !this.metronomeGain) return;
+
+    const clickTime = Math.max(time, this.context.currentTime);
+    const osc = this.context.createOscillator();
+    const envelope = this.context.createGain();
+
+    osc.type = 'sine';
+    osc.frequency.value = accent ? 1600 : 1000;
+
+    envelope.gain.setValueAtTime(accent ? 1 : 0.6, clickTime);
+    envelope.gain.exponentialRampToValueAtTime(0.001, clickTime + 0.04);
+
+    osc.connect(envelope);
+    envelope.connect(this.metronomeGain);
+    osc.start(clickTime);
+    osc.stop(clickTime + 0.05);
+  }
+
+  /**
+   * Set metronome volume (0-1)
+   */
+  setMetronomeVolume(volume: number): void {
+    if (this.metronomeGain) {
+      this.metronomeGain.gain.setValueAtTime(
+        Math.max(0, Math.min(1, volume)),
+        this.context?.currentTime ?? 0
+      );
+    }
   }
 
   /**
    * Update synthesis parameters for a track
    */
-  updateSynthParams(synthType: string, params: Record<string, number>): void {
-    const synth = this.synths.get(synthType);
-    if (!synth) return;
+  updateSynthParams(trackId: string, params: Record<string, number>): void {
+    this.graph?.updateSynthParams(trackId, params);
+  }
 
-    Object.entries(params).forEach(([key, value]) => {
-      synth.setParameter(key, value);
-    });
+  /**
+   * Reseed synth noise sources from the pattern seed
+   */
+  setSeed(seed: number): void {
+    this.graph?.setSeed(seed);
+  }
+
+  /**
+   * Apply master bus EQ, compressor and limiter settings
+   */
+  setMasterSettings(settings: MasterSettings): void {
+    this.graph?.setMasterSettings(settings);
+  }
+
+  /**
+   * Apply send effect settings at the pattern tempo
+   */
+  setEffects(effects: SendEffects, bpm: number): void {
+    this.graph?.setEffects(effects, bpm);
+  }
+
+  /**
+   * Apply sidechain ducking settings
+   */
+  setSidechain(settings: SidechainSettings): void {
+    this.graph?.setSidechain(settings);
   }
 
   /**
@@ -141,21 +175,16 @@ export class AudioEngine {
    * Set master volume
    */
   setMasterVolume(volume: number): void {
-    if (this.masterGain) {
-      this.masterGain.gain.setValueAtTime(
-        Math.max(0, Math.min(1, volume)),
-        this.context?.currentTime ?? 0
-      );
-    }
+    this.graph?.setMasterVolume(volume);
   }
 
   /**
    * Clean up resources
    */
   dispose(): void {
-    this.synths.forEach(synth => synth.dispose());
-    this.synths.clear();
-    this.masterGain?.disconnect();
+    this.graph?.dispose();
+    this.graph = null;
+    this.metronomeGain?.disconnect();
     this.context?.close();
     this.initialized = false;
   }
@@ -0,0 +1,281 @@
+// Audio graph - per-track synths and channels, send buses and the master chain on one context
+
+import { KickSynth } from './engines/KickSynth';
+import { SnareSynth } from './engines/SnareSynth';
+import { HiHatSynth } from './engines/HiHatSynth';
+import { ClapSynth } from './engines/ClapSynth';
+import { RimSynth } from './engines/RimSynth';
+import { TomSynth } from './engines/TomSynth';
+import { PercSynth } from './engines/PercSynth';
+import { BaseDrumSynth, ParameterSlide } from './engines/BaseDrumSynth';
+import { TrackChannel } from './TrackChannel';
+import { InsertChain } from './InsertChain';
+import { MasterBus } from './MasterBus';
+import { TempoDelay } from './TempoDelay';
+import { ConvolutionReverb } from './ConvolutionReverb';
+import { MasterSettings, SendEffects, SidechainSettings, SynthParameters, Track } from '../types/pattern';
+import { createDefaultSidechain, SEND_BUS_COUNT } from '../utils/patternDefaults';
+import { deriveSeed } from '../utils/random';
+import { scheduleDuck } from './ducking';
+
+/**
+ * Everything between a trigger and the speakers. Built the same way on a
+ * live AudioContext and an OfflineAudioContext, so renders match playback.
+ */
+export class AudioGraph {
+  readonly context: BaseAudioContext;
+  private masterGain: GainNode;
+  private masterBus: MasterBus;
+  private delay: TempoDelay;
+  private reverb: ConvolutionReverb;
+  private sendBuses: GainNode[]; // Feed the delay and reverb
+  private sendReturns: GainNode[]; // After each effect; their gains only move for ducking
+  private sidechain: SidechainSettings = createDefaultSidechain();
+  private synths: Map<string, BaseDrumSynth> = new Map(); // By track id
+  private synthTypes: Map<string, string> = new Map(); // Synth type each track's synth was built for
+  private trackIndices: Map<string, number> = new Map(); // Position of each track, which its seed is derived from
+  private inserts: Map<string, InsertChain> = new Map(); // Insert chain per track id
+  private channels: Map<string, TrackChannel> = new Map(); // Mixer strip per track id
+  private seed = 0;
+
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.context = context;
+
+    this.masterBus = new MasterBus(context, destination);
+    this.masterGain = context.createGain();
+    this.masterGain.gain.value = 0.8;
+    this.masterGain.connect(this.masterBus.input);
+
+    // Send effects return to the master bus. Ducking the returns, not the
+    // buses, pumps the effects' tails too.
+    this.sendReturns = Array.from({ length: SEND_BUS_COUNT }, () => {
+      const ret = context.createGain();
+      ret.connect(this.masterGain);
+      return ret;
+    });
+    this.delay = new TempoDelay(context, this.sendReturns[0]);
+    this.reverb = new ConvolutionReverb(context, this.sendReturns[1]);
+    const effectInputs = [this.delay.input, this.reverb.input];
+    this.sendBuses = effectInputs.map(input => {
+      const bus = context.createGain();
+      bus.connect(input);
+      return bus;
+    });
+  }
+
+  /**
+   * Create a synth engine for a synth type
+   */
+  private createSynth(synthType: string): BaseDrumSynth | null {
+    switch (synthType) {
+      case 'kick': return new KickSynth(this.context);
+      case 'snare': return new SnareSynth(this.context);
+      case 'hihat': return new HiHatSynth(this.context);
+      case 'clap': return new ClapSynth(this.context);
+      case 'rim': return new RimSynth(this.context);
+      case 'tom': return new TomSynth(this.context);
+      case 'perc1':
+      case 'perc2': return new PercSynth(this.context);
+      default: return null;
+    }
+  }
+
+  /**
+   * Get a track's synth, creating it (or replacing it when the track's
+   * synth type changed) on demand
+   */
+  private getTrackSynth(trackId: string, synthType: string): BaseDrumSynth | null {
+    const existing = this.synths.get(trackId);
+    if (existing && this.synthTypes.get(trackId) === synthType) return existing;
+
+    const synth = this.createSynth(synthType);
+    if (!synth) return null;
+
+    existing?.dispose();
+    synth.connect(this.getTrackInserts(trackId).input);
+    this.seedSynth(trackId, synth);
+    this.synths.set(trackId, synth);
+    this.synthTypes.set(trackId, synthType);
+    return synth;
+  }
+
+  /**
+   * Seed a track's synth from the pattern seed and the track's position
+   */
+  private seedSynth(trackId: string, synth: BaseDrumSynth): void {
+    synth.setSeed(deriveSeed(this.seed, this.trackIndices.get(trackId) ?? 0));
+  }
+
+  /**
+   * Get a track's insert chain, creating it on demand
+   */
+  private getTrackInserts(trackId: string): InsertChain {
+    let chain = this.inserts.get(trackId);
+    if (!chain) {
+      chain = new InsertChain(this.context, this.getTrackChannel(trackId).input);
+      this.inserts.set(trackId, chain);
+    }
+    return chain;
+  }
+
+  /**
+   * Get a track's mixer channel, creating it on demand
+   */
+  private getTrackChannel(trackId: string): TrackChannel {
+    let channel = this.channels.get(trackId);
+    if (!channel) {
+      channel = new TrackChannel(this.context, this.masterGain, this.sendBuses);
+      this.channels.set(trackId, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * Give every track its own synth and channel with its own parameters and
+   * mix, dropping those of tracks that no longer exist
+   */
+  syncTracks(tracks: Pick<Track, 'id' | 'synthType' | 'synthParams' | 'inserts' | 'volume' | 'pan' | 'sends'>[]): void {
+    const ids = new Set(tracks.map(track => track.id));
+    this.synths.forEach((synth, trackId) => {
+      if (ids.has(trackId)) return;
+      synth.dispose();
+      this.synths.delete(trackId);
+      this.synthTypes.delete(trackId);
+      this.trackIndices.delete(trackId);
+      this.inserts.get(trackId)?.dispose();
+      this.inserts.delete(trackId);
+      this.channels.get(trackId)?.dispose();
+      this.channels.delete(trackId);
+    });
+
+    tracks.forEach((track, index) => {
+      const moved = this.trackIndices.has(track.id) && this.trackIndices.get(track.id) !== index;
+      this.trackIndices.set(track.id, index);
+
+      const synth = this.getTrackSynth(track.id, track.synthType);
+      if (synth && moved) this.seedSynth(track.id, synth);
+      this.updateSynthParams(track.id, track.synthParams);
+      this.getTrackInserts(track.id).sync(track.inserts);
+
+      const channel = this.getTrackChannel(track.id);
+      channel.setVolume(track.volume);
+      channel.setPan(track.pan);
+      track.sends.forEach((level, i) => channel.setSend(i, level));
+    });
+  }
+
+  /**
+   * Silence or restore a track's channel, including sound already playing
+   */
+  setTrackMute(trackId: string, muted: boolean): void {
+    this.channels.get(trackId)?.setMute(muted);
+  }
+
+  /**
+   * Trigger a track's drum sound
+   * @param velocity - 0-127
+   */
+  trigger(
+    trackId: string,
+    synthType: string,
+    velocity: number,
+    params: Partial<SynthParameters> | undefined,
+    time: number,
+    slide?: ParameterSlide
+  ): void {
+    const synth = this.getTrackSynth(trackId, synthType);
+    if (!synth) {
+      console.warn(`Synth type not found: ${synthType}`);
+      return;
+    }
+
+    synth.trigger(time, velocity / 127, params, slide);
+    this.inserts.get(trackId)?.trigger(params ?? {}, time, slide);
+
+    if (this.sidechain.enabled && trackId === this.sidechain.source) {
+      this.duck(time, velocity);
+    }
+  }
+
+  /**
+   * Duck the sidechain targets for a hit of the key track
+   * @param velocity - 0-127, scales the ducking depth
+   */
+  private duck(time: number, velocity: number): void {
+    const { tracks, sends, amount, attack, release } = this.sidechain;
+    const depth = amount * Math.min(1, velocity / 127);
+
+    tracks.forEach(trackId => this.channels.get(trackId)?.duck(time, depth, attack, release));
+    sends.forEach(index => {
+      const ret = this.sendReturns[index];
+      if (ret) scheduleDuck(ret.gain, time, depth, attack, release);
+    });
+  }
+
+  /**
+   * Update synthesis parameters for a track
+   */
+  updateSynthParams(trackId: string, params: Record<string, number>): void {
+    const synth = this.synths.get(trackId);
+    if (!synth) return;
+
+    Object.entries(params).forEach(([key, value]) => {
+      synth.setParameter(key, value);
+    });
+  }
+
+  /**
+   * Reseed synth noise sources from the pattern seed
+   */
+  setSeed(seed: number): void {
+    this.seed = seed;
+    this.synths.forEach((synth, trackId) => this.seedSynth(trackId, synth));
+  }
+
+  /**
+   * Apply master chain settings
+   */
+  setMasterSettings(settings: MasterSettings): void {
+    this.masterBus.apply(settings);
+  }
+
+  /**
+   * Apply send effect settings; the delay time follows the tempo
+   */
+  setEffects(effects: SendEffects, bpm: number): void {
+    this.delay.apply(effects.delay, bpm);
+    this.reverb.apply(effects.reverb);
+  }
+
+  /**
+   * Set which track keys the sidechain and what it ducks
+   */
+  setSidechain(settings: SidechainSettings): void {
+    this.sidechain = settings;
+  }
+
+  /**
+   * Set master volume (0-1)
+   */
+  setMasterVolume(volume: number): void {
+    this.masterGain.gain.setValueAtTime(Math.max(0, Math.min(1, volume)), this.context.currentTime);
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    this.synths.forEach(synth => synth.dispose());
+    this.synths.clear();
+    this.inserts.forEach(chain => chain.dispose());
+    this.inserts.clear();
+    this.channels.forEach(channel => channel.dispose());
+    this.channels.clear();
+    this.sendBuses.forEach(bus => bus.disconnect());
+    this.sendReturns.forEach(ret => ret.disconnect());
+    this.delay.dispose();
+    this.reverb.dispose();
+    this.masterGain.disconnect();
+    this.masterBus.dispose();
+  }
+}
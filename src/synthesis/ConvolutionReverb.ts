@@ -0,0 +1,107 @@
+// Send reverb - convolution with an impulse response generated from size, decay and damping
+
+import { SendEffects } from '../types/pattern';
+import { createRandom } from '../utils/random';
+
+type ReverbSettings = SendEffects['reverb'];
+
+const MAX_PRE_DELAY = 0.04; // Seconds, at size 1
+const MAX_EARLY_SPREAD = 0.08; // Seconds over which early reflections arrive, at size 1
+const EARLY_REFLECTIONS = 12;
+const MIN_DECAY = 0.2;
+const MAX_DECAY = 8;
+const BRIGHT_CUTOFF = 16000; // Hz - tail filter at the start, and throughout when undamped
+const DARK_CUTOFF = 800; // Hz - tail filter at the end when fully damped
+const IMPULSE_SEED = 0x5eed; // Fixed, so the same settings always give the same room
+
+/**
+ * Build a stereo impulse response: a pre-delay, a handful of early
+ * reflections, then a noise tail falling 60 dB over the decay time. Damping
+ * lowers the tail's cutoff as it decays, like air and soft walls soaking up
+ * the highs. The channels use different noise so the reverb is wide.
+ */
+const createImpulseResponse = (
+  context: BaseAudioContext,
+  size: number,
+  decay: number,
+  damping: number
+): AudioBuffer => {
+  const rate = context.sampleRate;
+  const preDelay = Math.round(size * MAX_PRE_DELAY * rate);
+  const tail = Math.round(decay * rate);
+  const length = preDelay + tail;
+  const buffer = context.createBuffer(2, length, rate);
+  const random = createRandom(IMPULSE_SEED);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+
+    for (let i = 0; i < EARLY_REFLECTIONS; i++) {
+      const at = preDelay + Math.floor(random() * size * MAX_EARLY_SPREAD * rate);
+      data[Math.min(at, length - 1)] += (random() < 0.5 ? -1 : 1) * 0.5 * (1 - i / EARLY_REFLECTIONS);
+    }
+
+    let filtered = 0;
+    for (let i = 0; i < tail; i++) {
+      const envelope = Math.pow(10, (-3 * i) / tail);
+      const cutoff = BRIGHT_CUTOFF * Math.pow(DARK_CUTOFF / BRIGHT_CUTOFF, damping * (i / tail));
+      filtered += (1 - Math.exp((-2 * Math.PI * cutoff) / rate)) * (random() * 2 - 1 - filtered);
+      data[preDelay + i] += filtered * envelope;
+    }
+  }
+
+  return buffer;
+};
+
+export class ConvolutionReverb {
+  readonly input: GainNode;
+  private context: BaseAudioContext;
+  private convolver: ConvolverNode;
+  private output: GainNode;
+  private impulseKey: string | null = null; // Settings the current impulse was built from
+
+  /**
+   * @param destination - Where the reverb returns to
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.context = context;
+    this.input = context.createGain();
+    this.convolver = context.createConvolver();
+    this.output = context.createGain();
+
+    this.input.connect(this.convolver);
+    this.convolver.connect(this.output);
+    this.output.connect(destination);
+  }
+
+  /**
+   * Apply settings, regenerating the impulse response only when the room changed
+   */
+  apply(settings: ReverbSettings): void {
+    const size = Math.max(0, Math.min(1, settings.size));
+    const decay = Math.max(MIN_DECAY, Math.min(MAX_DECAY, settings.decay));
+    const damping = Math.max(0, Math.min(1, settings.damping));
+
+    const first = this.impulseKey === null;
+    const key = `${size}:${decay}:${damping}`;
+    if (key !== this.impulseKey) {
+      this.convolver.buffer = createImpulseResponse(this.context, size, decay, damping);
+      this.impulseKey = key;
+    }
+
+    // The first level is set outright so renders don't fade the reverb in
+    const level = Math.max(0, Math.min(1, settings.level));
+    if (first) {
+      this.output.gain.setValueAtTime(level, this.context.currentTime);
+    } else {
+      this.output.gain.setTargetAtTime(level, this.context.currentTime, 0.01);
+    }
+  }
+
+  /**
+   * Disconnect the reverb
+   */
+  dispose(): void {
+    [this.input, this.convolver, this.output].forEach(node => node.disconnect());
+  }
+}
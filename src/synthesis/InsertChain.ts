@@ -0,0 +1,117 @@
+// Track insert chain - the track's insert effects in order, between its synth and channel strip
+
+import { InsertEffect, InsertType, SynthParameters } from '../types/pattern';
+import { resolveInsertParams } from '../utils/insertEffects';
+import { ParameterSlide } from './engines/BaseDrumSynth';
+import { BaseInsert } from './inserts/BaseInsert';
+import { FilterInsert } from './inserts/FilterInsert';
+import { WavefolderInsert } from './inserts/WavefolderInsert';
+import { WorkletInsert } from './inserts/WorkletInsert';
+
+interface InsertSlot {
+  insert: InsertEffect;
+  processor: BaseInsert;
+}
+
+export class InsertChain {
+  readonly input: GainNode; // Synth output connects here
+  private context: BaseAudioContext;
+  private destination: AudioNode;
+  private slots: InsertSlot[] = [];
+  private layout: string | null = null; // Order and bypass the chain is wired for
+
+  /**
+   * @param destination - The track's channel strip
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.context = context;
+    this.destination = destination;
+    this.input = context.createGain();
+    this.input.connect(destination);
+  }
+
+  /**
+   * Create the processor for an insert type
+   */
+  private createProcessor(type: InsertType): BaseInsert {
+    switch (type) {
+      case 'filter': return new FilterInsert(this.context);
+      case 'bitcrusher': return new WorkletInsert(this.context, 'bitcrusher');
+      case 'wavefolder': return new WavefolderInsert(this.context);
+      case 'transient': return new WorkletInsert(this.context, 'transient-shaper');
+    }
+  }
+
+  /**
+   * Match the chain to a track's inserts, keeping processors of inserts that
+   * are still there and rewiring only when the order or bypass changed
+   */
+  sync(inserts: InsertEffect[]): void {
+    const previous = new Map(this.slots.map(slot => [slot.insert.id, slot]));
+
+    this.slots = inserts.map(insert => {
+      const existing = previous.get(insert.id);
+      previous.delete(insert.id);
+
+      if (existing && existing.insert.type === insert.type) {
+        // Only touch parameters that changed, so held step locks aren't reset
+        if (existing.insert.params !== insert.params) {
+          existing.processor.apply(insert.params, this.context.currentTime);
+        }
+        existing.insert = insert;
+        return existing;
+      }
+
+      existing?.processor.dispose();
+      const processor = this.createProcessor(insert.type);
+      processor.apply(insert.params, this.context.currentTime);
+      return { insert, processor };
+    });
+    previous.forEach(slot => slot.processor.dispose());
+
+    const layout = inserts.map(insert => `${insert.id}:${insert.type}:${insert.enabled}`).join(',');
+    if (layout !== this.layout) {
+      this.layout = layout;
+      this.connectSlots();
+    }
+  }
+
+  /**
+   * Connect input -> enabled inserts -> destination
+   */
+  private connectSlots(): void {
+    this.input.disconnect();
+    this.slots.forEach(slot => slot.processor.output.disconnect());
+
+    let previous: AudioNode = this.input;
+    this.slots.filter(slot => slot.insert.enabled).forEach(slot => {
+      previous.connect(slot.processor.input);
+      previous = slot.processor.output;
+    });
+    previous.connect(this.destination);
+  }
+
+  /**
+   * Apply each insert's parameters with the trigger's step locks from the
+   * hit time on, so locks hold until the next hit
+   * @param params - Trigger parameters, including insert locks
+   */
+  trigger(params: Partial<SynthParameters>, time: number, slide?: ParameterSlide): void {
+    this.slots.forEach(({ insert, processor }) => {
+      const targets = slide ? resolveInsertParams(insert, slide.params, true) : {};
+      const glide = slide && Object.keys(targets).length > 0
+        ? { params: targets, end: time + slide.duration }
+        : undefined;
+      processor.apply(resolveInsertParams(insert, params), time, glide);
+    });
+  }
+
+  /**
+   * Disconnect the chain and its inserts
+   */
+  dispose(): void {
+    this.input.disconnect();
+    this.slots.forEach(slot => slot.processor.dispose());
+    this.slots = [];
+  }
+}
@@ -0,0 +1,145 @@
+// Master bus chain - 3-band EQ, glue compressor and limiter with per-stage bypass
+
+import { MasterSettings } from '../types/pattern';
+
+// Fixed EQ band frequencies (Hz)
+const EQ_LOW_FREQ = 200;
+const EQ_MID_FREQ = 1000;
+const EQ_HIGH_FREQ = 5000;
+
+/**
+ * Convert decibels to a linear gain
+ */
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * Wave shaper curve that passes the signal unchanged up to the ceiling
+ * and clips anything above it
+ */
+const createClipCurve = (ceiling: number): Float32Array<ArrayBuffer> => {
+  const size = 2049;
+  const curve = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  }
+  return curve;
+};
+
+export class MasterBus {
+  readonly input: GainNode;
+  private output: AudioNode;
+  private low: BiquadFilterNode;
+  private mid: BiquadFilterNode;
+  private high: BiquadFilterNode;
+  private compressor: DynamicsCompressorNode;
+  private makeup: GainNode;
+  private limiter: DynamicsCompressorNode;
+  private ceiling: WaveShaperNode;
+  private ceilingDb: number | null = null;
+  private settings: MasterSettings | null = null;
+
+  /**
+   * Works on any context, so offline renders go through the same chain
+   * @param destination - Where the processed mix goes
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.input = context.createGain();
+    this.output = destination;
+
+    this.low = context.createBiquadFilter();
+    this.low.type = 'lowshelf';
+    this.low.frequency.value = EQ_LOW_FREQ;
+
+    this.mid = context.createBiquadFilter();
+    this.mid.type = 'peaking';
+    this.mid.frequency.value = EQ_MID_FREQ;
+    this.mid.Q.value = 0.7;
+
+    this.high = context.createBiquadFilter();
+    this.high.type = 'highshelf';
+    this.high.frequency.value = EQ_HIGH_FREQ;
+
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+
+    this.compressor = context.createDynamicsCompressor();
+    this.makeup = context.createGain();
+    this.compressor.connect(this.makeup);
+
+    // Hard knee, fast attack and maximum ratio catch most peaks smoothly;
+    // a clipper after it makes sure nothing passes the ceiling
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+    this.ceiling = context.createWaveShaper();
+    this.ceiling.oversample = '4x';
+    this.limiter.connect(this.ceiling);
+
+    this.input.connect(this.output);
+  }
+
+  /**
+   * Apply settings, rewiring the chain when a stage is bypassed or restored
+   */
+  apply(settings: MasterSettings): void {
+    const { eq, compressor, limiter } = settings;
+
+    this.low.gain.value = eq.low;
+    this.mid.gain.value = eq.mid;
+    this.high.gain.value = eq.high;
+
+    this.compressor.threshold.value = compressor.threshold;
+    this.compressor.ratio.value = compressor.ratio;
+    this.compressor.attack.value = compressor.attack;
+    this.compressor.release.value = compressor.release;
+    this.makeup.gain.value = dbToGain(compressor.makeup);
+
+    this.limiter.threshold.value = limiter.ceiling;
+    if (this.ceilingDb !== limiter.ceiling) {
+      this.ceiling.curve = createClipCurve(dbToGain(limiter.ceiling));
+      this.ceilingDb = limiter.ceiling;
+    }
+
+    const rewire = !this.settings
+      || this.settings.eq.enabled !== eq.enabled
+      || this.settings.compressor.enabled !== compressor.enabled
+      || this.settings.limiter.enabled !== limiter.enabled;
+    this.settings = settings;
+
+    if (rewire) {
+      this.connectStages();
+    }
+  }
+
+  /**
+   * Connect input -> enabled stages -> output
+   */
+  private connectStages(): void {
+    if (!this.settings) return;
+
+    [this.input, this.high, this.makeup, this.ceiling].forEach(node => node.disconnect());
+
+    const stages: [AudioNode, AudioNode][] = [];
+    if (this.settings.eq.enabled) stages.push([this.low, this.high]);
+    if (this.settings.compressor.enabled) stages.push([this.compressor, this.makeup]);
+    if (this.settings.limiter.enabled) stages.push([this.limiter, this.ceiling]);
+
+    let previous: AudioNode = this.input;
+    stages.forEach(([first, last]) => {
+      previous.connect(first);
+      previous = last;
+    });
+    previous.connect(this.output);
+  }
+
+  /**
+   * Disconnect the chain
+   */
+  dispose(): void {
+    [this.input, this.low, this.mid, this.high, this.compressor, this.makeup, this.limiter, this.ceiling]
+      .forEach(node => node.disconnect());
+  }
+}
@@ -1,39 +1,93 @@
-// Sequencer engine with precise timing using Web Audio API
+// Sequencer engine - lookahead scheduling of the headless core onto a clock and output
 
-import { Pattern } from '../types/pattern';
+import { ArrangementEntry, MuteQuantize, MuteScene, Pattern } from '../types/pattern';
 import { audioEngine } from './AudioEngine';
+import { SequencerClock } from './SequencerClock';
+import { Clock, resolveStep, TriggerOutput } from './sequencerCore';
+import { getSecondsPerStep, getStepsPerBar, getStepsPerBeat } from '../utils/patternTiming';
+
+/**
+ * Called for each step with the master step and each track's own step
+ */
+export type StepCallback = (step: number, trackSteps: number[]) => void;
+
+/**
+ * Called when song playback moves on to another arrangement entry
+ */
+export type ArrangementCallback = (entry: ArrangementEntry) => void;
+
+/**
+ * Called when a queued pattern takes over at the end of the loop
+ */
+export type QueueCallback = (pattern: Pattern) => void;
+
+/**
+ * Called when queued performance mutes take effect
+ */
+export type MuteCallback = (mutes: MuteScene) => void;
 
 export class Sequencer {
   private isPlaying = false;
   private currentStep = 0;
+  private stepCount = 0; // Steps elapsed since start, drives per-track playheads
+  private trackSteps: number[] = [];
   private nextStepTime = 0;
   private lookahead = 25; // ms
   private scheduleAheadTime = 0.1; // seconds
-  private timerID: number | null = null;
   private pattern: Pattern | null = null;
-  private onStepCallback: ((step: number) => void) | null = null;
+  private onStepCallback: StepCallback | null = null;
+  private arrangement: ArrangementEntry[] | null = null;
+  private entryIndex = 0;
+  private entryRepeat = 0;
+  private onArrangementCallback: ArrangementCallback | null = null;
+  private fillMode = false;
+  private previousConditions: boolean[] = []; // Per-track PRE flag
+  private queuedPattern: Pattern | null = null;
+  private switchedPatternId: string | null = null; // Queued pattern now playing that the UI hasn't caught up with
+  private onQueueCallback: QueueCallback | null = null;
+  private mutes: MuteScene | null = null; // Performance mutes in effect
+  private queuedMutes: MuteScene | null = null;
+  private muteQuantize: MuteQuantize = 'bar';
+  private onMuteCallback: MuteCallback | null = null;
+  private metronome = false;
+  private countInSteps = 0; // Length of the count-in in steps
+  private countInRemaining = 0;
+
+  /**
+   * @param clock - Drives the lookahead loop and supplies the current time
+   * @param output - Receives every scheduled trigger
+   */
+  constructor(private clock: Clock, private output: TriggerOutput) {}
 
   /**
    * Start the sequencer
+   * @param countInBars - Bars of metronome clicks before the pattern begins
    */
-  start(pattern: Pattern, onStep?: (step: number) => void): void {
+  start(pattern: Pattern, onStep?: StepCallback, countInBars = 0): void {
     if (this.isPlaying) return;
 
-    if (!audioEngine.isInitialized()) {
-      console.error('Audio engine not initialized');
+    if (!this.output.isReady()) {
+      console.error('Sequencer output not ready');
       return;
     }
 
-    this.pattern = pattern;
+    this.pattern = this.arrangement?.[0]?.pattern ?? pattern;
     this.onStepCallback = onStep ?? null;
     this.isPlaying = true;
     this.currentStep = 0;
-    this.nextStepTime = audioEngine.getCurrentTime();
+    this.stepCount = 0;
+    this.previousConditions = [];
+    this.switchedPatternId = null;
+    this.entryIndex = 0;
+    this.entryRepeat = 0;
+    this.nextStepTime = this.clock.now();
+    this.countInSteps = countInBars * getStepsPerBar(this.pattern.timeSignature, this.pattern.stepResolution);
+    this.countInRemaining = this.countInSteps;
 
     this.schedule();
-    this.timerID = window.setInterval(() => this.schedule(), this.lookahead);
+    this.clock.start(this.lookahead, () => this.schedule());
 
-    console.log('Sequencer started', { bpm: pattern.bpm });
+    console.log('Sequencer started', { bpm: this.pattern.bpm, song: this.arrangement !== null });
   }
 
   /**
@@ -44,11 +98,14 @@ export class Sequencer {
 
     this.isPlaying = false;
     this.currentStep = 0;
+    this.stepCount = 0;
+    this.trackSteps = [];
+    this.queuedPattern = null;
+    this.switchedPatternId = null;
+    this.queuedMutes = null;
+    this.countInRemaining = 0;
 
-    if (this.timerID !== null) {
-      clearInterval(this.timerID);
-      this.timerID = null;
-    }
+    this.clock.stop();
 
     console.log('Sequencer stopped');
   }
@@ -59,52 +116,98 @@ export class Sequencer {
   private schedule(): void {
     if (!this.pattern || !this.isPlaying) return;
 
-    const currentTime = audioEngine.getCurrentTime();
+    const currentTime = this.clock.now();
 
     while (this.nextStepTime < currentTime + this.scheduleAheadTime) {
-      this.scheduleStep(this.currentStep, this.nextStepTime);
+      if (this.countInRemaining > 0) {
+        this.scheduleCountIn(this.nextStepTime);
+        continue;
+      }
+
+      this.scheduleStep(this.currentStep, this.stepCount, this.nextStepTime, currentTime);
       this.nextStep();
     }
   }
 
+  /**
+   * Click one count-in step - the pattern starts once the count-in runs out
+   */
+  private scheduleCountIn(time: number): void {
+    if (!this.pattern) return;
+
+    const position = this.countInSteps - this.countInRemaining;
+    this.scheduleClick(position, time);
+
+    this.nextStepTime += getSecondsPerStep(this.pattern.bpm, this.pattern.stepResolution);
+    this.countInRemaining--;
+  }
+
+  /**
+   * Click on each beat, accented on the bar line
+   */
+  private scheduleClick(step: number, time: number): void {
+    if (!this.pattern) return;
+
+    const { timeSignature, stepResolution } = this.pattern;
+    if (step % getStepsPerBeat(timeSignature, stepResolution) !== 0) return;
+
+    this.output.click?.(time, step % getStepsPerBar(timeSignature, stepResolution) === 0);
+  }
+
   /**
    * Schedule a single step
+   * @param step - Step within the master loop (Pattern.steps)
+   * @param stepCount - Steps elapsed since start, wrapped per track length
+   * @param windowStart - Start of the lookahead window - no hit is scheduled before it
    */
-  private scheduleStep(step: number, time: number): void {
+  private scheduleStep(step: number, stepCount: number, time: number, windowStart: number): void {
     if (!this.pattern) return;
 
+    this.applyQueuedMutes(step, time);
+
+    const { events, trackSteps, previousConditions } = resolveStep(this.pattern, step, stepCount, time, {
+      fill: this.fillMode,
+      previousConditions: this.previousConditions,
+      windowStart,
+      mutes: this.mutes,
+    });
+    this.trackSteps = trackSteps;
+    this.previousConditions = previousConditions;
+
     // Notify UI of current step
     if (this.onStepCallback) {
-      // Schedule UI update slightly before audio for visual feedback
-      const uiDelay = Math.max(0, (time - audioEngine.getCurrentTime()) * 1000 - 10);
-      setTimeout(() => this.onStepCallback?.(step), uiDelay);
+      this.notifyUI(time, () => this.onStepCallback?.(step, trackSteps));
     }
 
-    // Check if any tracks have solo enabled
-    const hasSolo = this.pattern.tracks.some(track => track.solo);
-
-    // Trigger each track's step
-    this.pattern.tracks.forEach((track) => {
-      const stepData = track.steps[step];
+    if (this.metronome) {
+      this.scheduleClick(step, time);
+    }
 
-      if (!stepData.active) return;
-      if (track.mute) return;
-      if (hasSolo && !track.solo) return;
+    events.forEach(event => this.output.trigger(event));
+  }
 
-      // Apply probability
-      if (Math.random() > stepData.probability) return;
+  /**
+   * Switch to queued performance mutes on a beat or bar line
+   */
+  private applyQueuedMutes(step: number, time: number): void {
+    if (!this.pattern || !this.queuedMutes) return;
 
-      // Trigger the drum with velocity and current track parameters
-      const velocity = stepData.velocity * track.volume;
+    const { timeSignature, stepResolution } = this.pattern;
+    const interval = this.muteQuantize === 'bar'
+      ? getStepsPerBar(timeSignature, stepResolution)
+      : this.muteQuantize === 'beat'
+        ? getStepsPerBeat(timeSignature, stepResolution)
+        : 1;
+    if (step % interval !== 0) return;
 
-      // Merge track parameters with step-specific overrides
-      const triggerParams = {
-        ...track.synthParams,
-        ...stepData.parameters
-      };
+    const mutes = this.queuedMutes;
+    this.queuedMutes = null;
+    this.mutes = mutes;
 
-      audioEngine.triggerDrum(track.synthType, velocity, triggerParams);
-    });
+    if (this.onMuteCallback) {
+      const onMutes = this.onMuteCallback;
+      this.notifyUI(time, () => onMutes(mutes));
+    }
   }
 
   /**
@@ -113,24 +216,126 @@ export class Sequencer {
   private nextStep(): void {
     if (!this.pattern) return;
 
-    const secondsPerBeat = 60.0 / this.pattern.bpm;
-    const secondsPerStep = secondsPerBeat / 4; // 16th notes
+    // Steps are evenly spaced - grooves shift individual hits instead
+    this.nextStepTime += getSecondsPerStep(this.pattern.bpm, this.pattern.stepResolution);
+    this.currentStep = (this.currentStep + 1) % this.pattern.steps;
+    this.stepCount++;
 
-    // Apply swing to odd steps (steps 1, 3, 5, etc.)
-    let swingOffset = 0;
-    if (this.currentStep % 2 === 1 && this.pattern.swing > 0) {
-      // Swing delays odd steps by a percentage of the step time
-      swingOffset = secondsPerStep * this.pattern.swing * 0.5;
+    if (this.currentStep === 0) {
+      this.handleLoopEnd();
     }
+  }
 
-    this.nextStepTime += secondsPerStep + swingOffset;
-    this.currentStep = (this.currentStep + 1) % this.pattern.steps;
+  /**
+   * Called at the bar line ending each pass through the master loop.
+   * In song mode this moves to the next arrangement entry once its repeats
+   * are used up; the next step is already timed, so the switch is gapless.
+   */
+  private handleLoopEnd(): void {
+    if (this.queuedPattern) {
+      const pattern = this.queuedPattern;
+      this.queuedPattern = null;
+      this.pattern = pattern;
+      this.switchedPatternId = pattern.id;
+      this.stepCount = 0;
+      this.previousConditions = [];
+
+      if (this.onQueueCallback) {
+        const onQueue = this.onQueueCallback;
+        this.notifyUI(this.nextStepTime, () => onQueue(pattern));
+      }
+      return;
+    }
+
+    if (!this.arrangement || this.arrangement.length === 0) return;
+
+    this.entryRepeat++;
+    if (this.entryRepeat < this.arrangement[this.entryIndex].repeats) return;
+
+    this.entryRepeat = 0;
+    this.entryIndex = (this.entryIndex + 1) % this.arrangement.length;
+
+    const entry = this.arrangement[this.entryIndex];
+    this.pattern = entry.pattern;
+    this.stepCount = 0; // Restart per-track playheads and loop counts with the new pattern
+    this.previousConditions = [];
+
+    if (this.onArrangementCallback) {
+      this.notifyUI(this.nextStepTime, () => this.onArrangementCallback?.(entry));
+    }
+  }
+
+  /**
+   * Run a UI callback slightly before the given audio time for visual feedback
+   */
+  private notifyUI(time: number, callback: () => void): void {
+    const uiDelay = Math.max(0, (time - this.clock.now()) * 1000 - 10);
+    this.clock.setTimeout(callback, uiDelay);
+  }
+
+  /**
+   * Queue a pattern to take over at the end of the current loop,
+   * or null to cancel a queued pattern
+   */
+  queuePattern(pattern: Pattern | null, onSwitch?: QueueCallback): void {
+    this.queuedPattern = pattern;
+    this.onQueueCallback = onSwitch ?? null;
+  }
+
+  /**
+   * Set the song arrangement to play, or null for single pattern looping.
+   * Takes effect on the next start().
+   */
+  setArrangement(entries: ArrangementEntry[] | null, onChange?: ArrangementCallback): void {
+    this.arrangement = entries && entries.length > 0 ? entries : null;
+    this.onArrangementCallback = onChange ?? null;
+  }
+
+  /**
+   * Set the performance mutes in effect, or null to use the pattern's mute/solo
+   */
+  setMutes(mutes: MuteScene | null): void {
+    this.mutes = mutes;
+  }
+
+  /**
+   * Queue performance mutes to take effect on the next beat or bar line,
+   * or null to cancel
+   */
+  queueMutes(mutes: MuteScene | null, quantize: MuteQuantize, onApply?: MuteCallback): void {
+    this.queuedMutes = mutes;
+    this.muteQuantize = quantize;
+    this.onMuteCallback = onApply ?? null;
+  }
+
+  /**
+   * Turn fill mode on or off for FILL conditions
+   */
+  setFillMode(enabled: boolean): void {
+    this.fillMode = enabled;
   }
 
   /**
    * Update the pattern (for live parameter changes)
    */
   updatePattern(pattern: Pattern): void {
+    if (this.arrangement) {
+      // Keep the arrangement's copy in sync so edits survive the next pass
+      this.arrangement = this.arrangement.map(entry =>
+        entry.pattern.id === pattern.id ? { ...entry, pattern } : entry
+      );
+
+      // Ignore updates for a pattern that is no longer playing
+      if (this.pattern && this.pattern.id !== pattern.id) return;
+    }
+
+    // After a queued switch the UI still sends the old pattern until it is
+    // told about the switch - don't let those edits switch back
+    if (this.switchedPatternId !== null) {
+      if (pattern.id !== this.switchedPatternId) return;
+      this.switchedPatternId = null;
+    }
+
     this.pattern = pattern;
   }
 
@@ -147,7 +352,43 @@ export class Sequencer {
   getCurrentStep(): number {
     return this.currentStep;
   }
+
+  /**
+   * Click the metronome on each beat while playing
+   */
+  setMetronome(enabled: boolean): void {
+    this.metronome = enabled;
+  }
+
+  /**
+   * Fractional steps elapsed since start at an audio context time, for
+   * placing live hits on the grid. Null while stopped or counting in.
+   */
+  getStepPosition(time: number): number | null {
+    if (!this.pattern || !this.isPlaying) return null;
+
+    const secondsPerStep = getSecondsPerStep(this.pattern.bpm, this.pattern.stepResolution);
+    const position = this.stepCount - this.countInRemaining - (this.nextStepTime - time) / secondsPerStep;
+
+    // Hits just before the downbeat still land on the first step
+    return position < -0.5 ? null : position;
+  }
+
+  /**
+   * Get the last scheduled step of each track
+   */
+  getTrackSteps(): number[] {
+    return this.trackSteps;
+  }
 }
 
-// Global sequencer instance
-export const sequencer = new Sequencer();
+// Global sequencer instance, playing through the audio engine
+export const sequencer = new Sequencer(
+  new SequencerClock(() => audioEngine.getCurrentTime()),
+  {
+    isReady: () => audioEngine.isInitialized(),
+    trigger: (event) =>
+      audioEngine.triggerDrum(event.trackId, event.synthType, event.velocity, event.params, event.time, event.slide),
+    click: (time, accent) => audioEngine.triggerClick(time, accent),
+  }
+);
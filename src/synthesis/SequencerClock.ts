@@ -0,0 +1,111 @@
+// Scheduler clock - a Web Worker clock for playback, with main-thread timers as a fallback
+
+import { Clock } from './sequencerCore';
+
+/**
+ * Drives the sequencer's lookahead loop and delayed UI callbacks. Main-thread
+ * timers are throttled to about once a second in background tabs; worker
+ * timers are not. Falls back to main-thread timers where workers are unavailable.
+ */
+export class SequencerClock implements Clock {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private onTick: (() => void) | null = null;
+  private intervalID: ReturnType<typeof setInterval> | null = null;
+  private timeouts: Map<number, () => void> = new Map(); // Pending callbacks by id
+  private fallbackTimers: Map<number, ReturnType<typeof setTimeout>> = new Map();
+  private nextTimeoutId = 0;
+
+  /**
+   * @param getTime - Current time in seconds, e.g. the audio context time
+   */
+  constructor(private getTime: () => number) {}
+
+  now(): number {
+    return this.getTime();
+  }
+
+  /**
+   * Call onTick every interval (ms) until stopped
+   */
+  start(interval: number, onTick: () => void): void {
+    // Timeouts stay - the first steps are scheduled before the clock starts
+    this.stopTicking();
+    this.onTick = onTick;
+
+    const worker = this.getWorker();
+    if (worker) {
+      worker.postMessage({ type: 'start', interval });
+    } else {
+      this.intervalID = setInterval(onTick, interval);
+    }
+  }
+
+  /**
+   * Stop ticking and drop pending timeouts, so no late UI callbacks fire
+   */
+  stop(): void {
+    this.stopTicking();
+    this.timeouts.clear();
+    this.fallbackTimers.forEach(timer => clearTimeout(timer));
+    this.fallbackTimers.clear();
+    this.worker?.postMessage({ type: 'stop' });
+  }
+
+  private stopTicking(): void {
+    this.onTick = null;
+    if (this.intervalID !== null) {
+      clearInterval(this.intervalID);
+      this.intervalID = null;
+    }
+  }
+
+  /**
+   * Run a callback after a delay (ms), timed by the worker
+   */
+  setTimeout(callback: () => void, delay: number): void {
+    const id = this.nextTimeoutId++;
+    this.timeouts.set(id, callback);
+
+    const worker = this.getWorker();
+    if (worker) {
+      worker.postMessage({ type: 'timeout', id, delay });
+    } else {
+      this.fallbackTimers.set(id, setTimeout(() => this.fireTimeout(id), delay));
+    }
+  }
+
+  /**
+   * Run and forget a pending timeout, unless stop() dropped it
+   */
+  private fireTimeout(id: number): void {
+    const callback = this.timeouts.get(id);
+    this.timeouts.delete(id);
+    this.fallbackTimers.delete(id);
+    callback?.();
+  }
+
+  /**
+   * Create the worker on first use
+   */
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL('./clock.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<{ type: string; id?: number }>) => {
+        if (event.data.type === 'tick') {
+          this.onTick?.();
+        } else if (event.data.type === 'timeout' && event.data.id !== undefined) {
+          this.fireTimeout(event.data.id);
+        }
+      };
+    } catch (error) {
+      console.warn('Clock worker unavailable, using main-thread timers', error);
+      this.workerFailed = true;
+    }
+
+    return this.worker;
+  }
+}
+
@@ -0,0 +1,104 @@
+// Send delay - tempo-synced echoes with filtered feedback and optional ping-pong
+
+import { SendEffects } from '../types/pattern';
+import { getDivisionSeconds } from '../utils/patternTiming';
+
+type DelaySettings = SendEffects['delay'];
+
+const MAX_DELAY_TIME = 2; // Seconds - a quarter note at 60 BPM is 1
+const MAX_FEEDBACK = 0.95;
+
+export class TempoDelay {
+  readonly input: GainNode;
+  private context: BaseAudioContext;
+  private left: DelayNode;
+  private right: DelayNode;
+  private leftFilter: BiquadFilterNode;
+  private rightFilter: BiquadFilterNode;
+  private leftFeedback: GainNode;
+  private rightFeedback: GainNode;
+  private merger: ChannelMergerNode;
+  private output: GainNode;
+  private pingPong: boolean | null = null;
+
+  /**
+   * @param destination - Where the echoes return to
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode) {
+    this.context = context;
+    this.input = context.createGain();
+    this.left = context.createDelay(MAX_DELAY_TIME);
+    this.right = context.createDelay(MAX_DELAY_TIME);
+    this.leftFilter = context.createBiquadFilter();
+    this.rightFilter = context.createBiquadFilter();
+    this.leftFeedback = context.createGain();
+    this.rightFeedback = context.createGain();
+    this.merger = context.createChannelMerger(2);
+    this.output = context.createGain();
+
+    // Each repeat goes through the filter, so echoes get darker as they fade
+    this.leftFilter.connect(this.leftFeedback);
+    this.rightFilter.connect(this.rightFeedback);
+    this.rightFeedback.connect(this.left);
+
+    this.input.connect(this.left);
+    this.merger.connect(this.output);
+    this.output.connect(destination);
+  }
+
+  /**
+   * Apply settings at a tempo, rewiring when ping-pong is switched
+   */
+  apply(settings: DelaySettings, bpm: number): void {
+    const time = Math.min(MAX_DELAY_TIME, getDivisionSeconds(bpm, settings.division));
+    const feedback = Math.max(0, Math.min(MAX_FEEDBACK, settings.feedback));
+    const filter = Math.max(200, Math.min(20000, settings.filter));
+    // Jump straight to the first settings; glide on later changes so tempo moves don't click
+    const set = (param: AudioParam, value: number) => {
+      if (this.pingPong === null) {
+        param.setValueAtTime(value, this.context.currentTime);
+      } else {
+        param.setTargetAtTime(value, this.context.currentTime, 0.05);
+      }
+    };
+
+    [this.left.delayTime, this.right.delayTime].forEach(param => set(param, time));
+    [this.leftFeedback.gain, this.rightFeedback.gain].forEach(param => set(param, feedback));
+    [this.leftFilter.frequency, this.rightFilter.frequency].forEach(param => set(param, filter));
+    set(this.output.gain, Math.max(0, Math.min(1, settings.level)));
+
+    if (this.pingPong !== settings.pingPong) {
+      this.pingPong = settings.pingPong;
+      this.connectTaps();
+    }
+  }
+
+  /**
+   * Mono: the left line feeds itself and both speakers. Ping-pong: the lines
+   * feed each other and each has its own side, so repeats bounce left-right.
+   */
+  private connectTaps(): void {
+    [this.left, this.right, this.leftFeedback].forEach(node => node.disconnect());
+    this.left.connect(this.leftFilter);
+    this.right.connect(this.rightFilter);
+
+    if (this.pingPong) {
+      this.left.connect(this.merger, 0, 0);
+      this.right.connect(this.merger, 0, 1);
+      this.leftFeedback.connect(this.right);
+    } else {
+      this.left.connect(this.merger, 0, 0);
+      this.left.connect(this.merger, 0, 1);
+      this.leftFeedback.connect(this.left);
+    }
+  }
+
+  /**
+   * Disconnect the delay lines
+   */
+  dispose(): void {
+    [this.input, this.left, this.right, this.leftFilter, this.rightFilter,
+      this.leftFeedback, this.rightFeedback, this.merger, this.output]
+      .forEach(node => node.disconnect());
+  }
+}
@@ -0,0 +1,90 @@
+// Mixer channel strip - fader, pan, mute, sidechain ducking and post-fader sends for one track
+
+import { scheduleDuck } from './ducking';
+
+export class TrackChannel {
+  readonly input: GainNode; // Fader - synth output connects here
+  private panner: StereoPannerNode;
+  private muteGain: GainNode;
+  private duckGain: GainNode; // Only moved by sidechain ducking
+  private sends: GainNode[];
+  private context: BaseAudioContext;
+  private settled: Set<AudioParam> = new Set(); // Params given their first value
+
+  /**
+   * @param destination - Master bus
+   * @param sendBuses - Inputs of the send buses
+   */
+  constructor(context: BaseAudioContext, destination: AudioNode, sendBuses: AudioNode[]) {
+    this.context = context;
+    this.input = context.createGain();
+    this.panner = context.createStereoPanner();
+    this.muteGain = context.createGain();
+    this.duckGain = context.createGain();
+
+    this.input.connect(this.panner);
+    this.panner.connect(this.muteGain);
+    this.muteGain.connect(this.duckGain);
+    this.duckGain.connect(destination);
+
+    // Sends are post-fader, post-mute and post-ducking, so muting a track
+    // silences its effects too and ducking pumps them along with it
+    this.sends = sendBuses.map(bus => {
+      const send = context.createGain();
+      send.gain.value = 0;
+      this.duckGain.connect(send);
+      send.connect(bus);
+      return send;
+    });
+  }
+
+  setVolume(volume: number): void {
+    this.setSmooth(this.input.gain, Math.max(0, Math.min(1, volume)));
+  }
+
+  setPan(pan: number): void {
+    this.setSmooth(this.panner.pan, Math.max(-1, Math.min(1, pan)));
+  }
+
+  setSend(index: number, level: number): void {
+    const send = this.sends[index];
+    if (send) {
+      this.setSmooth(send.gain, Math.max(0, Math.min(1, level)));
+    }
+  }
+
+  setMute(muted: boolean): void {
+    this.setSmooth(this.muteGain.gain, muted ? 0 : 1);
+  }
+
+  /**
+   * Duck the channel for a sidechain hit, see scheduleDuck
+   */
+  duck(time: number, depth: number, attack: number, release: number): void {
+    scheduleDuck(this.duckGain.gain, time, depth, attack, release);
+  }
+
+  /**
+   * Disconnect every node in the strip
+   */
+  dispose(): void {
+    this.input.disconnect();
+    this.panner.disconnect();
+    this.muteGain.disconnect();
+    this.duckGain.disconnect();
+    this.sends.forEach(send => send.disconnect());
+  }
+
+  /**
+   * Glide to a new value over a few milliseconds to avoid zipper noise. The
+   * first value is set outright, so renders start at the mix, not the defaults.
+   */
+  private setSmooth(param: AudioParam, value: number): void {
+    if (!this.settled.has(param)) {
+      this.settled.add(param);
+      param.setValueAtTime(value, this.context.currentTime);
+      return;
+    }
+    param.setTargetAtTime(value, this.context.currentTime, 0.01);
+  }
+}
@@ -0,0 +1,37 @@
+// Clock worker - worker timers keep running at full rate in background tabs
+
+type ClockMessage =
+  | { type: 'start'; interval: number }
+  | { type: 'stop' }
+  | { type: 'timeout'; id: number; delay: number };
+
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+const timeouts: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+self.onmessage = (event: MessageEvent<ClockMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'start':
+      if (tickTimer !== null) clearInterval(tickTimer);
+      tickTimer = setInterval(() => self.postMessage({ type: 'tick' }), message.interval);
+      break;
+
+    case 'stop':
+      // Pending timeouts belong to the run being stopped
+      if (tickTimer !== null) clearInterval(tickTimer);
+      tickTimer = null;
+      timeouts.forEach(timer => clearTimeout(timer));
+      timeouts.clear();
+      break;
+
+    case 'timeout': {
+      const id = message.id;
+      timeouts.set(id, setTimeout(() => {
+        timeouts.delete(id);
+        self.postMessage({ type: 'timeout', id });
+      }, message.delay));
+      break;
+    }
+  }
+};
@@ -0,0 +1,22 @@
+// Sidechain ducking - gain envelopes scheduled at the key track's hit times
+
+/**
+ * Pull a gain down by `depth` from a hit time, then let it recover. The hit
+ * times come from the sequencer, so the envelope is sample-accurate without
+ * an envelope follower. Each stage only aims the gain at a new target, so a
+ * hit during an earlier release ducks again from wherever the gain is.
+ * @param depth - 0-1 gain reduction
+ * @param attack - Seconds to reach the ducked level
+ * @param release - Seconds to recover
+ */
+export function scheduleDuck(
+  param: AudioParam,
+  time: number,
+  depth: number,
+  attack: number,
+  release: number
+): void {
+  // setTargetAtTime covers ~95% of the distance in three time constants
+  param.setTargetAtTime(1 - Math.max(0, Math.min(1, depth)), time, Math.max(0, attack) / 3);
+  param.setTargetAtTime(1, time + Math.max(0, attack), Math.max(0.001, release) / 3);
+}
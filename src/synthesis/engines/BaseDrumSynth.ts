@@ -1,14 +1,18 @@
 // Base class for all drum synthesizers
 
 import { SynthParameters } from '../../types/pattern';
+import { createRandom } from '../../utils/random';
+
+// Ramps a sliding decay envelope is built from over the slide
+const SLIDE_ENVELOPE_SEGMENTS = 8;
 
 export abstract class BaseDrumSynth {
-  protected context: AudioContext;
+  protected context: BaseAudioContext;
   protected outputNode: GainNode;
   protected parameters: Map<string, number>;
   protected voices: Set<DrumVoice> = new Set();
 
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     this.context = context;
     this.outputNode = context.createGain();
     this.outputNode.gain.value = 1.0;
@@ -26,11 +30,13 @@ export abstract class BaseDrumSynth {
    * @param time - Audio context time to trigger the sound
    * @param velocity - Velocity (0-1)
    * @param params - Optional parameter overrides for this trigger
+   * @param slide - Optional parameter targets to glide towards
    */
   abstract trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void;
 
   /**
@@ -51,6 +57,16 @@ export abstract class BaseDrumSynth {
     return this.parameters.get(param) ?? defaultValue;
   }
 
+  /**
+   * Reseed any random sources (noise buffers) so renders are reproducible.
+   * The engine derives each track's seed from the pattern seed and the track's
+   * position, so two tracks on the same synth type don't share their noise.
+   * @param seed - This synth's own seed
+   */
+  setSeed(_seed: number): void {
+    // Synths without noise have nothing to reseed
+  }
+
   /**
    * Connect the synthesizer output to a destination
    * @param destination - Audio node to connect to
@@ -75,6 +91,23 @@ export abstract class BaseDrumSynth {
     this.disconnect();
   }
 
+  /**
+   * Create a mono white noise buffer from a seed
+   * @param duration - Buffer length in seconds
+   */
+  protected createNoiseBuffer(duration: number, seed: number): AudioBuffer {
+    const bufferSize = Math.floor(this.context.sampleRate * duration);
+    const buffer = this.context.createBuffer(1, bufferSize, this.context.sampleRate);
+    const data = buffer.getChannelData(0);
+    const random = createRandom(seed);
+
+    for (let i = 0; i < bufferSize; i++) {
+      data[i] = random() * 2 - 1;
+    }
+
+    return buffer;
+  }
+
   /**
    * Create an exponential envelope
    */
@@ -92,6 +125,76 @@ export abstract class BaseDrumSynth {
     );
   }
 
+  /**
+   * Exponential envelope whose decay time glides towards a slide's decay
+   * target the way pitch does, so a sliding step's tail stretches or shortens
+   * into the next step's decay. Returns the envelope's length in seconds.
+   * @param scale - Ratio between the envelope duration and the decay parameter
+   */
+  protected createSlidingEnvelope(
+    param: AudioParam,
+    startTime: number,
+    startValue: number,
+    endValue: number,
+    duration: number,
+    slide: ParameterSlide | undefined,
+    scale: number = 1
+  ): number {
+    const target = slide?.params.decay;
+    const end = Math.max(endValue, 0.001);
+    if (!slide || target === undefined || slide.duration <= 0 || startValue <= end) {
+      this.createEnvelope(param, startTime, startValue, endValue, duration);
+      return duration;
+    }
+
+    const targetDuration = Math.max(target * scale, 0.001);
+    const segmentLength = slide.duration / SLIDE_ENVELOPE_SEGMENTS;
+    let progress = 0; // 0 at the start value, 1 at the end value
+    let elapsed = 0;
+
+    param.setValueAtTime(startValue, startTime);
+
+    // Piecewise exponential ramps, each running at the decay time of its midpoint
+    while (progress < 1 && elapsed < slide.duration - 1e-9) {
+      const decayAt = duration * Math.pow(targetDuration / duration, (elapsed + segmentLength / 2) / slide.duration);
+      const segment = Math.min(segmentLength, (1 - progress) * decayAt);
+      progress = Math.min(1, progress + segment / decayAt);
+      elapsed += segment;
+      param.exponentialRampToValueAtTime(startValue * Math.pow(end / startValue, progress), startTime + elapsed);
+    }
+
+    // Past the slide the envelope finishes at the target decay time
+    if (progress < 1) {
+      elapsed += (1 - progress) * targetDuration;
+      param.exponentialRampToValueAtTime(end, startTime + elapsed);
+    }
+
+    return elapsed;
+  }
+
+  /**
+   * Glide an AudioParam to a slide target for the given parameter.
+   * Scheduled after the param's own events, so call it last.
+   * @param scale - Ratio between the AudioParam value and the parameter value
+   * @param minOffset - Earliest end of the glide, after existing envelopes
+   */
+  protected applySlide(
+    param: AudioParam,
+    key: string,
+    slide: ParameterSlide | undefined,
+    time: number,
+    scale: number = 1,
+    minOffset: number = 0
+  ): void {
+    const target = slide?.params[key];
+    if (!slide || target === undefined) return;
+
+    param.exponentialRampToValueAtTime(
+      Math.max(target * scale, 0.001),
+      time + Math.max(slide.duration, minOffset + 0.001)
+    );
+  }
+
   /**
    * Apply parameter smoothing to prevent clicks
    */
@@ -105,6 +208,14 @@ export abstract class BaseDrumSynth {
   }
 }
 
+/**
+ * Parameter values a hit glides towards over a duration
+ */
+export interface ParameterSlide {
+  params: Partial<SynthParameters>;
+  duration: number; // seconds
+}
+
 /**
  * Represents an active synthesizer voice
  */
@@ -1,14 +1,14 @@
 // Clap synthesizer using layered noise bursts with timing offsets
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
 export class ClapSynth extends BaseDrumSynth {
   private noiseBuffer: AudioBuffer | null = null;
 
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     super(context);
-    this.createNoiseBuffer();
+    this.setSeed(0);
   }
 
   protected initializeDefaultParameters(): void {
@@ -20,21 +20,15 @@ export class ClapSynth extends BaseDrumSynth {
     this.parameters.set('resonance', 2); // Filter resonance
   }
 
-  private createNoiseBuffer(): void {
-    const bufferSize = this.context.sampleRate * 2;
-    this.noiseBuffer = this.context.createBuffer(1, bufferSize, this.context.sampleRate);
-    const data = this.noiseBuffer.getChannelData(0);
-
-    // Generate white noise
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
+  setSeed(seed: number): void {
+    this.noiseBuffer = this.createNoiseBuffer(2, seed);
   }
 
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     const pitch = params?.pitch ?? this.getParameter('pitch', 1000);
     const decay = params?.decay ?? this.getParameter('decay', 0.1);
@@ -47,6 +41,7 @@ export class ClapSynth extends BaseDrumSynth {
 
     const nodes: AudioNode[] = [];
     const layerCount = Math.floor(layers);
+    let lastLayerEnd = time;
 
     // Create multiple noise burst layers with slight timing offsets
     for (let i = 0; i < layerCount; i++) {
@@ -62,14 +57,19 @@ export class ClapSynth extends BaseDrumSynth {
       filter.type = 'bandpass';
       filter.frequency.setValueAtTime(pitch * tone, layerTime);
       filter.Q.setValueAtTime(resonance, layerTime);
+      this.applySlide(filter.frequency, 'pitch', slide, layerTime, tone);
 
       // Envelope
       const gain = this.context.createGain();
       gain.gain.setValueAtTime(layerVelocity * 0.8, layerTime);
 
       // Fast attack, quick decay
-      const layerDecay = decay * (0.8 + i * 0.1); // Later layers decay slightly longer
-      this.createEnvelope(gain.gain, layerTime, layerVelocity * 0.8, 0.001, layerDecay);
+      const layerScale = 0.8 + i * 0.1; // Later layers decay slightly longer
+      const layerSlide = slide && { ...slide, duration: slide.duration - (layerTime - time) };
+      const layerLength = this.createSlidingEnvelope(
+        gain.gain, layerTime, layerVelocity * 0.8, 0.001, decay * layerScale, layerSlide, layerScale
+      );
+      lastLayerEnd = Math.max(lastLayerEnd, layerTime + layerLength);
 
       // Connect chain
       noiseSource.connect(filter);
@@ -78,7 +78,7 @@ export class ClapSynth extends BaseDrumSynth {
 
       // Start and stop
       noiseSource.start(layerTime);
-      noiseSource.stop(layerTime + layerDecay + 0.05);
+      noiseSource.stop(layerTime + layerLength + 0.05);
     }
 
     // Output gain
@@ -95,7 +95,7 @@ export class ClapSynth extends BaseDrumSynth {
 
     masterGain.connect(this.outputNode);
 
-    const endTime = time + decay + spread * layerCount + 0.1;
+    const endTime = lastLayerEnd + 0.1;
 
     // Create voice object
     const voice: DrumVoice = {
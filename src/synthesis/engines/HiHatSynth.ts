@@ -1,15 +1,23 @@
 // Hi-hat synthesizer using filtered noise with metallic resonances
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
+// Choke groups are shared by every hi-hat on a context, so a closed hat
+// track still cuts off an open hat track
+const chokeGroups = new WeakMap<BaseAudioContext, Map<number, DrumVoice>>();
+
 export class HiHatSynth extends BaseDrumSynth {
   private noiseBuffer: AudioBuffer | null = null;
-  private activeChokeGroup: Map<number, DrumVoice> = new Map();
+  private activeChokeGroup: Map<number, DrumVoice>;
 
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     super(context);
-    this.createNoiseBuffer();
+    if (!chokeGroups.has(context)) {
+      chokeGroups.set(context, new Map());
+    }
+    this.activeChokeGroup = chokeGroups.get(context)!;
+    this.setSeed(0);
   }
 
   protected initializeDefaultParameters(): void {
@@ -21,21 +29,15 @@ export class HiHatSynth extends BaseDrumSynth {
     this.parameters.set('chokeGroup', 0); // Choke group
   }
 
-  private createNoiseBuffer(): void {
-    const bufferSize = this.context.sampleRate * 2;
-    this.noiseBuffer = this.context.createBuffer(1, bufferSize, this.context.sampleRate);
-    const data = this.noiseBuffer.getChannelData(0);
-
-    // Generate white noise
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
+  setSeed(seed: number): void {
+    this.noiseBuffer = this.createNoiseBuffer(2, seed);
   }
 
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     const decay = params?.decay ?? this.getParameter('decay', 0.05);
     const tone = params?.tone ?? this.getParameter('tone', 0.7);
@@ -80,6 +82,11 @@ export class HiHatSynth extends BaseDrumSynth {
     filter3.Q.setValueAtTime(10 * metallic, time);
     nodes.push(filter3);
 
+    // Glide the metallic color
+    this.applySlide(filter1.frequency, 'color', slide, time, 0.7);
+    this.applySlide(filter2.frequency, 'color', slide, time, 1.2);
+    this.applySlide(filter3.frequency, 'color', slide, time, 1.8);
+
     // --- High-pass Filter (Remove low frequencies) ---
     const hpFilter = this.context.createBiquadFilter();
     hpFilter.type = 'highpass';
@@ -90,7 +97,7 @@ export class HiHatSynth extends BaseDrumSynth {
     // --- Envelope ---
     const envGain = this.context.createGain();
     envGain.gain.setValueAtTime(velocity * tone, time);
-    this.createEnvelope(envGain.gain, time, velocity * tone, 0.001, decay);
+    const length = this.createSlidingEnvelope(envGain.gain, time, velocity * tone, 0.001, decay, slide);
     nodes.push(envGain);
 
     // --- Output Gain ---
@@ -114,7 +121,7 @@ export class HiHatSynth extends BaseDrumSynth {
     // Start noise
     noiseSource.start(time);
 
-    const endTime = time + decay + 0.05;
+    const endTime = time + length + 0.05;
     noiseSource.stop(endTime);
 
     // Create voice object
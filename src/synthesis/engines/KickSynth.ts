@@ -1,6 +1,6 @@
 // Kick drum synthesizer using sub oscillator + click oscillator
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
 export class KickSynth extends BaseDrumSynth {
@@ -17,7 +17,8 @@ export class KickSynth extends BaseDrumSynth {
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     // Merge provided parameters with defaults
     const pitch = params?.pitch ?? this.getParameter('pitch', 60);
@@ -40,9 +41,11 @@ export class KickSynth extends BaseDrumSynth {
     subOsc.frequency.setValueAtTime(startPitch, time);
     subOsc.frequency.exponentialRampToValueAtTime(pitch, time + pitchDecay);
 
+    this.applySlide(subOsc.frequency, 'pitch', slide, time, 1, pitchDecay);
+
     subOsc.type = 'sine';
     subGain.gain.setValueAtTime(subLevel * velocity, time);
-    this.createEnvelope(subGain.gain, time, subLevel * velocity, 0.001, decay);
+    const bodyLength = this.createSlidingEnvelope(subGain.gain, time, subLevel * velocity, 0.001, decay, slide);
 
     subOsc.connect(subGain);
     nodes.push(subOsc, subGain);
@@ -89,7 +92,7 @@ export class KickSynth extends BaseDrumSynth {
     clickOsc.start(time);
 
     // Stop and clean up
-    const endTime = time + decay + 0.1;
+    const endTime = time + bodyLength + 0.1;
     subOsc.stop(endTime);
     clickOsc.stop(endTime);
 
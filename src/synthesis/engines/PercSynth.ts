@@ -1,9 +1,16 @@
 // Generic percussion synthesizer - tunable for various percussive sounds
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
 export class PercSynth extends BaseDrumSynth {
+  private noiseBuffer: AudioBuffer;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.noiseBuffer = this.createNoiseBuffer(0.1, 0);
+  }
+
   protected initializeDefaultParameters(): void {
     this.parameters.set('pitch', 300); // Tunable frequency
     this.parameters.set('decay', 0.12); // 120ms decay
@@ -12,10 +19,15 @@ export class PercSynth extends BaseDrumSynth {
     this.parameters.set('resonance', 6); // Filter resonance
   }
 
+  setSeed(seed: number): void {
+    this.noiseBuffer = this.createNoiseBuffer(0.1, seed);
+  }
+
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     const pitch = params?.pitch ?? this.getParameter('pitch', 300);
     const decay = params?.decay ?? this.getParameter('decay', 0.12);
@@ -39,6 +51,10 @@ export class PercSynth extends BaseDrumSynth {
     osc2.type = 'sine';
     osc2.frequency.setValueAtTime(pitch * harmonics, time);
 
+    // Glide pitch, keeping the primary oscillator's drop
+    this.applySlide(osc1.frequency, 'pitch', slide, time, 0.8, decay * 0.3);
+    this.applySlide(osc2.frequency, 'pitch', slide, time, harmonics);
+
     // Mix oscillators
     const osc1Gain = this.context.createGain();
     const osc2Gain = this.context.createGain();
@@ -57,6 +73,7 @@ export class PercSynth extends BaseDrumSynth {
     filter.type = 'bandpass';
     filter.frequency.setValueAtTime(pitch * 1.5, time);
     filter.Q.setValueAtTime(resonance, time);
+    this.applySlide(filter.frequency, 'pitch', slide, time, 1.5);
 
     oscGain.connect(filter);
     nodes.push(filter);
@@ -64,21 +81,15 @@ export class PercSynth extends BaseDrumSynth {
     // Envelope
     const envGain = this.context.createGain();
     envGain.gain.setValueAtTime(velocity * tone, time);
-    this.createEnvelope(envGain.gain, time, velocity * tone, 0.001, decay);
+    const toneLength = this.createSlidingEnvelope(envGain.gain, time, velocity * tone, 0.001, decay, slide);
 
     filter.connect(envGain);
     nodes.push(envGain, oscGain);
 
     // --- Noise Component ---
-    // Create short noise burst
-    const noiseBuffer = this.context.createBuffer(1, this.context.sampleRate * 0.1, this.context.sampleRate);
-    const noiseData = noiseBuffer.getChannelData(0);
-    for (let i = 0; i < noiseData.length; i++) {
-      noiseData[i] = Math.random() * 2 - 1;
-    }
-
+    // Short noise burst
     const noiseSource = this.context.createBufferSource();
-    noiseSource.buffer = noiseBuffer;
+    noiseSource.buffer = this.noiseBuffer;
 
     const noiseFilter = this.context.createBiquadFilter();
     noiseFilter.type = 'highpass';
@@ -87,7 +98,9 @@ export class PercSynth extends BaseDrumSynth {
 
     const noiseGain = this.context.createGain();
     noiseGain.gain.setValueAtTime(velocity * (1 - tone) * 0.3, time);
-    this.createEnvelope(noiseGain.gain, time, velocity * (1 - tone) * 0.3, 0.001, decay * 0.5);
+    const noiseLength = this.createSlidingEnvelope(
+      noiseGain.gain, time, velocity * (1 - tone) * 0.3, 0.001, decay * 0.5, slide, 0.5
+    );
 
     noiseSource.connect(noiseFilter);
     noiseFilter.connect(noiseGain);
@@ -107,10 +120,10 @@ export class PercSynth extends BaseDrumSynth {
     osc2.start(time);
     noiseSource.start(time);
 
-    const endTime = time + decay + 0.05;
+    const endTime = time + toneLength + 0.05;
     osc1.stop(endTime);
     osc2.stop(endTime);
-    noiseSource.stop(time + decay * 0.5 + 0.05);
+    noiseSource.stop(time + noiseLength + 0.05);
 
     // Create voice object
     const voice: DrumVoice = {
@@ -1,6 +1,6 @@
 // Rimshot synthesizer using filtered oscillator with metallic resonance
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
 export class RimSynth extends BaseDrumSynth {
@@ -15,7 +15,8 @@ export class RimSynth extends BaseDrumSynth {
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     const pitch = params?.pitch ?? this.getParameter('pitch', 400);
     const decay = params?.decay ?? this.getParameter('decay', 0.08);
@@ -39,9 +40,12 @@ export class RimSynth extends BaseDrumSynth {
     filter.frequency.setValueAtTime(pitch * 2, time);
     filter.Q.setValueAtTime(resonance * tone, time);
 
+    this.applySlide(osc.frequency, 'pitch', slide, time);
+    this.applySlide(filter.frequency, 'pitch', slide, time, 2);
+
     // Fast envelope
     oscGain.gain.setValueAtTime(velocity * 0.6, time);
-    this.createEnvelope(oscGain.gain, time, velocity * 0.6, 0.001, decay);
+    const bodyLength = this.createSlidingEnvelope(oscGain.gain, time, velocity * 0.6, 0.001, decay, slide);
 
     osc.connect(filter);
     filter.connect(oscGain);
@@ -81,7 +85,7 @@ export class RimSynth extends BaseDrumSynth {
     osc.start(time);
     clickOsc.start(time);
 
-    const endTime = time + decay + 0.05;
+    const endTime = time + bodyLength + 0.05;
     osc.stop(endTime);
     clickOsc.stop(endTime);
 
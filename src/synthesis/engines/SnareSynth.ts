@@ -1,14 +1,14 @@
 // Snare drum synthesizer using filtered tone + noise burst
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
 export class SnareSynth extends BaseDrumSynth {
   private noiseBuffer: AudioBuffer | null = null;
 
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     super(context);
-    this.createNoiseBuffer();
+    this.setSeed(0);
   }
 
   protected initializeDefaultParameters(): void {
@@ -22,24 +22,15 @@ export class SnareSynth extends BaseDrumSynth {
     this.parameters.set('resonance', 8); // Filter Q
   }
 
-  /**
-   * Create noise buffer for snare burst
-   */
-  private createNoiseBuffer(): void {
-    const bufferSize = this.context.sampleRate * 2; // 2 seconds of noise
-    this.noiseBuffer = this.context.createBuffer(1, bufferSize, this.context.sampleRate);
-    const data = this.noiseBuffer.getChannelData(0);
-
-    // Generate white noise
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
+  setSeed(seed: number): void {
+    this.noiseBuffer = this.createNoiseBuffer(2, seed);
   }
 
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     const tone = params?.tone ?? this.getParameter('tone', 0.5);
     const bodyFreq = (params as any)?.bodyFreq ?? this.getParameter('bodyFreq', 250);
@@ -64,6 +55,9 @@ export class SnareSynth extends BaseDrumSynth {
     bodyFilter.frequency.setValueAtTime(bodyFreq, time);
     bodyFilter.Q.setValueAtTime(resonance, time);
 
+    this.applySlide(bodyOsc.frequency, 'bodyFreq', slide, time);
+    this.applySlide(bodyFilter.frequency, 'bodyFreq', slide, time);
+
     // Body envelope
     bodyGain.gain.setValueAtTime(velocity * tone, time);
     this.createEnvelope(bodyGain.gain, time, velocity * tone, 0.001, bodyDecay);
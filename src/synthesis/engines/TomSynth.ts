@@ -1,6 +1,6 @@
 // Tom synthesizer using tuned oscillator with pitch envelope
 
-import { BaseDrumSynth, DrumVoice } from './BaseDrumSynth';
+import { BaseDrumSynth, DrumVoice, ParameterSlide } from './BaseDrumSynth';
 import { SynthParameters } from '../../types/pattern';
 
 export class TomSynth extends BaseDrumSynth {
@@ -16,7 +16,8 @@ export class TomSynth extends BaseDrumSynth {
   trigger(
     time: number,
     velocity: number,
-    params?: Partial<SynthParameters>
+    params?: Partial<SynthParameters>,
+    slide?: ParameterSlide
   ): void {
     const pitch = params?.pitch ?? this.getParameter('pitch', 150);
     const decay = params?.decay ?? this.getParameter('decay', 0.4);
@@ -45,9 +46,13 @@ export class TomSynth extends BaseDrumSynth {
     bodyFilter.frequency.setValueAtTime(pitch * 4, time);
     bodyFilter.Q.setValueAtTime(resonance, time);
 
+    // Glide pitch after the pitch envelope settles
+    this.applySlide(bodyOsc.frequency, 'pitch', slide, time, 1, pitchDecay);
+    this.applySlide(bodyFilter.frequency, 'pitch', slide, time, 4);
+
     // Envelope
     bodyGain.gain.setValueAtTime(velocity, time);
-    this.createEnvelope(bodyGain.gain, time, velocity, 0.001, decay);
+    const bodyLength = this.createSlidingEnvelope(bodyGain.gain, time, velocity, 0.001, decay, slide);
 
     bodyOsc.connect(bodyFilter);
     bodyFilter.connect(bodyGain);
@@ -60,6 +65,7 @@ export class TomSynth extends BaseDrumSynth {
 
     attackOsc.type = 'triangle';
     attackOsc.frequency.setValueAtTime(pitch * 2, time);
+    this.applySlide(attackOsc.frequency, 'pitch', slide, time, 2);
 
     attackFilter.type = 'highpass';
     attackFilter.frequency.setValueAtTime(200, time);
@@ -86,7 +92,7 @@ export class TomSynth extends BaseDrumSynth {
     bodyOsc.start(time);
     attackOsc.start(time);
 
-    const endTime = time + decay + 0.1;
+    const endTime = time + bodyLength + 0.1;
     bodyOsc.stop(endTime);
     attackOsc.stop(endTime);
 
@@ -0,0 +1,55 @@
+// Base class for track insert effects
+
+// Values an insert glides to by a time, from a sliding step
+export interface InsertSlide {
+  params: Record<string, number>;
+  end: number;
+}
+
+export abstract class BaseInsert {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  protected context: BaseAudioContext;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+  }
+
+  /**
+   * Apply parameters from a time on. Called with the insert's own values when
+   * they change, and with step locks applied on every trigger.
+   * @param slide - Optional values to glide towards
+   */
+  abstract apply(params: Record<string, number>, time: number, slide?: InsertSlide): void;
+
+  /**
+   * Set an AudioParam at a time, gliding on to a slide target when there is one.
+   * Glides are exponential when both ends are positive, so frequencies move evenly in pitch.
+   */
+  protected setParam(
+    param: AudioParam,
+    value: number,
+    time: number,
+    slide?: InsertSlide,
+    target?: number
+  ): void {
+    param.setValueAtTime(value, time);
+    if (!slide || target === undefined) return;
+
+    if (value > 0 && target > 0) {
+      param.exponentialRampToValueAtTime(target, slide.end);
+    } else {
+      param.linearRampToValueAtTime(target, slide.end);
+    }
+  }
+
+  /**
+   * Disconnect the insert
+   */
+  dispose(): void {
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+}
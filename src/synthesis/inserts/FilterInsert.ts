@@ -0,0 +1,51 @@
+// Multimode filter insert - lowpass, highpass or bandpass with resonance
+
+import { BaseInsert, InsertSlide } from './BaseInsert';
+
+const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass'];
+
+/**
+ * One filter per mode running side by side, with the mode picking which is
+ * heard. Switching gains instead of the filter type lets modes be locked per step.
+ */
+export class FilterInsert extends BaseInsert {
+  private filters: BiquadFilterNode[];
+  private modeGains: GainNode[];
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+
+    this.filters = FILTER_TYPES.map(type => {
+      const filter = context.createBiquadFilter();
+      filter.type = type;
+      return filter;
+    });
+    this.modeGains = this.filters.map(filter => {
+      const gain = context.createGain();
+      this.input.connect(filter);
+      filter.connect(gain);
+      gain.connect(this.output);
+      return gain;
+    });
+  }
+
+  apply(params: Record<string, number>, time: number, slide?: InsertSlide): void {
+    const nyquist = this.context.sampleRate / 2;
+    const clampCutoff = (value: number) => Math.max(20, Math.min(nyquist, value));
+    const cutoff = clampCutoff(params.cutoff ?? 2000);
+    const cutoffTarget = slide?.params.cutoff !== undefined ? clampCutoff(slide.params.cutoff) : undefined;
+    const mode = Math.max(0, Math.min(FILTER_TYPES.length - 1, Math.round(params.mode ?? 0)));
+
+    this.filters.forEach(filter => {
+      this.setParam(filter.frequency, cutoff, time, slide, cutoffTarget);
+      this.setParam(filter.Q, params.resonance ?? 1, time, slide, slide?.params.resonance);
+    });
+    this.modeGains.forEach((gain, i) => this.setParam(gain.gain, i === mode ? 1 : 0, time));
+  }
+
+  dispose(): void {
+    super.dispose();
+    this.filters.forEach(filter => filter.disconnect());
+    this.modeGains.forEach(gain => gain.disconnect());
+  }
+}
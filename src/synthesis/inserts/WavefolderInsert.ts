@@ -0,0 +1,80 @@
+// Wavefolder insert - folds peaks back on themselves for bright, metallic distortion
+
+import { BaseInsert, InsertSlide } from './BaseInsert';
+
+const MAX_FOLDS = 8; // Input gain into the sine curve at full drive
+const FADE_DRIVE = 0.25; // Drive below which the folded signal fades out
+
+/**
+ * Sine curve over the shaper's -1..1 input range. Quiet input stays near the
+ * linear part; driving it harder wraps the signal round more of the sine.
+ */
+const createFoldCurve = (): Float32Array<ArrayBuffer> => {
+  const size = 4097;
+  const curve = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = (i / (size - 1)) * 2 - 1;
+    curve[i] = Math.sin(x * MAX_FOLDS);
+  }
+  return curve;
+};
+
+/**
+ * Drive is a gain before a fixed curve, not a new curve, so it can glide and
+ * be locked per step
+ */
+const getDriveGain = (drive: number): number =>
+  (1 + Math.max(0, Math.min(1, drive)) * (MAX_FOLDS - 1)) / MAX_FOLDS;
+
+/**
+ * Level of the folded signal. Even a little gain into the sine curve bends the
+ * sound, so the fold fades in with drive and drive 0 leaves the input as it was.
+ */
+const getWetLevel = (mix: number, drive: number): number =>
+  mix * Math.max(0, Math.min(1, drive / FADE_DRIVE));
+
+export class WavefolderInsert extends BaseInsert {
+  private drive: GainNode;
+  private shaper: WaveShaperNode;
+  private wet: GainNode;
+  private dry: GainNode;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+
+    this.drive = context.createGain();
+    this.shaper = context.createWaveShaper();
+    this.shaper.curve = createFoldCurve();
+    this.shaper.oversample = '4x';
+    this.wet = context.createGain();
+    this.dry = context.createGain();
+
+    this.input.connect(this.drive);
+    this.drive.connect(this.shaper);
+    this.shaper.connect(this.wet);
+    this.wet.connect(this.output);
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+  }
+
+  apply(params: Record<string, number>, time: number, slide?: InsertSlide): void {
+    const mix = params.mix ?? 1;
+    const drive = params.drive ?? 0;
+    const mixTarget = slide?.params.mix;
+    const driveTarget = slide?.params.drive;
+    const wet = getWetLevel(mix, drive);
+    const wetTarget = mixTarget !== undefined || driveTarget !== undefined
+      ? getWetLevel(mixTarget ?? mix, driveTarget ?? drive)
+      : undefined;
+
+    this.setParam(this.drive.gain, getDriveGain(drive), time, slide,
+      driveTarget !== undefined ? getDriveGain(driveTarget) : undefined);
+    this.setParam(this.wet.gain, wet, time, slide, wetTarget);
+    this.setParam(this.dry.gain, 1 - wet, time, slide, wetTarget !== undefined ? 1 - wetTarget : undefined);
+  }
+
+  dispose(): void {
+    super.dispose();
+    [this.drive, this.shaper, this.wet, this.dry].forEach(node => node.disconnect());
+  }
+}
@@ -0,0 +1,40 @@
+// Insert running on an audio worklet processor - the bitcrusher and transient shaper
+
+import { BaseInsert, InsertSlide } from './BaseInsert';
+import { hasInsertWorklets } from './insertWorklets';
+
+export class WorkletInsert extends BaseInsert {
+  private node: AudioWorkletNode | null = null;
+
+  /**
+   * @param processor - Registered processor name, see inserts.worklet.ts
+   */
+  constructor(context: BaseAudioContext, processor: 'bitcrusher' | 'transient-shaper') {
+    super(context);
+
+    if (hasInsertWorklets(context)) {
+      this.node = new AudioWorkletNode(context, processor);
+      this.input.connect(this.node);
+      this.node.connect(this.output);
+    } else {
+      this.input.connect(this.output);
+    }
+  }
+
+  apply(params: Record<string, number>, time: number, slide?: InsertSlide): void {
+    const node = this.node;
+    if (!node) return;
+
+    Object.entries(params).forEach(([key, value]) => {
+      const param = node.parameters.get(key);
+      if (param) {
+        this.setParam(param, value, time, slide, slide?.params[key]);
+      }
+    });
+  }
+
+  dispose(): void {
+    super.dispose();
+    this.node?.disconnect();
+  }
+}
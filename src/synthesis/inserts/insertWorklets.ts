@@ -0,0 +1,28 @@
+// Loading the audio worklet module that the bitcrusher and transient shaper run on
+
+import workletUrl from '../../audioworklet/inserts.worklet.ts?worker&url';
+
+// Contexts the module was added to
+const loaded = new WeakSet<BaseAudioContext>();
+
+/**
+ * Add the insert processors to a context. Without them (e.g. no AudioWorklet
+ * support) those inserts pass audio through unchanged.
+ */
+export async function loadInsertWorklets(context: BaseAudioContext): Promise<void> {
+  if (loaded.has(context)) return;
+
+  try {
+    await context.audioWorklet.addModule(workletUrl);
+    loaded.add(context);
+  } catch (error) {
+    console.warn('Insert worklets unavailable, bitcrusher and transient shaper are bypassed', error);
+  }
+}
+
+/**
+ * Whether worklet-based inserts can be created on a context
+ */
+export function hasInsertWorklets(context: BaseAudioContext): boolean {
+  return loaded.has(context);
+}
@@ -0,0 +1,73 @@
+// Offline rendering - export length
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Pattern, StepResolution } from '../types/pattern';
+import { normalizePattern } from '../utils/patternDefaults';
+import { getSecondsPerStep } from '../utils/patternTiming';
+import { renderPattern, RENDER_SAMPLE_RATE } from './offlineRender';
+
+vi.mock('./AudioGraph');
+vi.mock('./inserts/insertWorklets');
+
+// Records the length each render asks for instead of rendering
+let renderLength = 0;
+
+class FakeOfflineAudioContext {
+  destination = {};
+
+  constructor(_channels: number, length: number, _sampleRate: number) {
+    renderLength = length;
+  }
+
+  startRendering(): Promise<AudioBuffer> {
+    return Promise.resolve({} as AudioBuffer);
+  }
+}
+
+const createPattern = (bpm: number, steps: number, stepResolution: StepResolution): Pattern =>
+  normalizePattern({
+    id: 'test',
+    name: 'Test',
+    bpm,
+    steps,
+    stepResolution,
+    timeSignature: { numerator: 7, denominator: 8 },
+    tracks: [],
+    created: 0,
+    version: 1,
+  } as unknown as Pattern);
+
+describe('renderPattern', () => {
+  beforeEach(() => {
+    vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    [120, 16, '16n', 1],
+    [90, 14, '16n', 2],
+    [140, 7, '8n', 4],
+    [100, 24, '16t', 1],
+    [174, 32, '32n', 3],
+  ] as [number, number, StepResolution, number][])(
+    'renders %d BPM, %d steps of %s for %d loops plus the tail',
+    async (bpm, steps, stepResolution, loops) => {
+      await renderPattern(createPattern(bpm, steps, stepResolution), loops);
+
+      // Two seconds of tail after the loops for decays to ring out
+      const duration = getSecondsPerStep(bpm, stepResolution) * steps * loops;
+      expect(renderLength).toBe(Math.ceil((duration + 2) * RENDER_SAMPLE_RATE));
+    }
+  );
+
+  it('lets a long reverb ring out', async () => {
+    const pattern = createPattern(120, 16, '16n');
+    pattern.effects.reverb.decay = 6;
+    await renderPattern(pattern);
+
+    expect(renderLength).toBe(Math.ceil((getSecondsPerStep(120, '16n') * 16 + 6) * RENDER_SAMPLE_RATE));
+  });
+});
@@ -0,0 +1,39 @@
+// Offline rendering - plays a pattern through the full audio graph faster than real time
+
+import { Pattern } from '../types/pattern';
+import { AudioGraph } from './AudioGraph';
+import { loadInsertWorklets } from './inserts/insertWorklets';
+import { renderEvents } from './sequencerCore';
+import { getLoopDuration } from '../utils/patternTiming';
+
+export const RENDER_SAMPLE_RATE = 44100;
+const RENDER_TAIL = 2; // Seconds after the last loop for decays and effects to ring out
+
+/**
+ * Render loops of a pattern to a stereo buffer, through the same synths,
+ * mixer and master chain as playback
+ */
+export async function renderPattern(pattern: Pattern, loops = 1): Promise<AudioBuffer> {
+  const duration = getLoopDuration(pattern) * loops;
+  const context = new OfflineAudioContext(
+    2,
+    Math.ceil((duration + Math.max(RENDER_TAIL, pattern.effects.reverb.decay)) * RENDER_SAMPLE_RATE),
+    RENDER_SAMPLE_RATE
+  );
+
+  await loadInsertWorklets(context);
+  const graph = new AudioGraph(context, context.destination);
+  graph.setSeed(pattern.seed);
+  graph.syncTracks(pattern.tracks);
+  graph.setMasterSettings(pattern.master);
+  graph.setEffects(pattern.effects, pattern.bpm);
+  graph.setSidechain(pattern.sidechain);
+
+  renderEvents(pattern, 0, duration).forEach(event => {
+    graph.trigger(event.trackId, event.synthType, event.velocity, event.params, event.time, event.slide);
+  });
+
+  const buffer = await context.startRendering();
+  graph.dispose();
+  return buffer;
+}
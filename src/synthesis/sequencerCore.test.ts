@@ -0,0 +1,121 @@
+// Headless sequencer core - exact event lists for small patterns
+
+import { describe, expect, it } from 'vitest';
+import { Pattern, StepData, Track } from '../types/pattern';
+import { createEmptyStep, normalizePattern } from '../utils/patternDefaults';
+import { renderEvents, TriggerEvent } from './sequencerCore';
+
+// At 120 BPM in 16ths every step is 0.125 s, so times below are exact
+const PARAMS = { pitch: 100, decay: 0.5, tone: 0.5 };
+
+const hit = (step: Partial<StepData> = {}): StepData => ({ ...createEmptyStep(), active: true, ...step });
+const rest = (): StepData => createEmptyStep();
+
+const createPattern = (tracks: Partial<Track>[], pattern: Partial<Pattern> = {}): Pattern =>
+  normalizePattern({
+    id: 'test',
+    name: 'Test',
+    bpm: 120,
+    steps: 4,
+    seed: 1,
+    created: 0,
+    version: 1,
+    tracks: tracks.map((track, index) => ({
+      id: String(index),
+      name: `Track ${index + 1}`,
+      synthType: 'kick',
+      volume: 1,
+      mute: false,
+      solo: false,
+      synthParams: PARAMS,
+      length: track.steps?.length,
+      ...track,
+    })),
+    ...pattern,
+  } as Pattern);
+
+// The parts of an event the tests pin down
+const summarize = (events: TriggerEvent[]) =>
+  events.map(({ time, trackIndex, velocity, params }) => ({ time, trackIndex, velocity, params }));
+
+describe('renderEvents', () => {
+  it('loops each track over its own length', () => {
+    const pattern = createPattern([
+      { steps: [hit(), rest(), rest()] },
+      { steps: [hit(), rest(), rest(), rest()] },
+    ]);
+
+    expect(summarize(renderEvents(pattern, 0, 1.5))).toEqual([
+      { time: 0, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 0, trackIndex: 1, velocity: 100, params: PARAMS },
+      { time: 0.375, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 0.5, trackIndex: 1, velocity: 100, params: PARAMS },
+      { time: 0.75, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 1, trackIndex: 1, velocity: 100, params: PARAMS },
+      { time: 1.125, trackIndex: 0, velocity: 100, params: PARAMS },
+    ]);
+  });
+
+  it('plays conditional steps on the loops their conditions pick', () => {
+    const pattern = createPattern([
+      { steps: [hit({ condition: { type: 'ratio', play: 2, of: 3 } }), hit({ condition: { type: 'pre' } })] },
+      { steps: [hit({ condition: { type: 'fill' } })] },
+    ]);
+
+    expect(summarize(renderEvents(pattern, 0, 1.25))).toEqual([
+      { time: 0.25, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 0.375, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 1, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 1.125, trackIndex: 0, velocity: 100, params: PARAMS },
+    ]);
+
+    expect(renderEvents(pattern, 0, 0.5, { fill: true }).filter(event => event.trackIndex === 1)
+      .map(event => event.time)).toEqual([0, 0.125, 0.25, 0.375]);
+  });
+
+  it('spreads ratchets over the step with velocity and pitch ramps', () => {
+    const pattern = createPattern([
+      {
+        steps: [
+          hit({ ratchet: { count: 2, velocityRamp: 'up', pitchRamp: 12 }, parameters: { decay: 0.2 } }),
+          rest(),
+          rest(),
+          rest(),
+        ],
+      },
+    ]);
+
+    expect(summarize(renderEvents(pattern, 0, 0.5))).toEqual([
+      { time: 0, trackIndex: 0, velocity: 50, params: { pitch: 100, decay: 0.2, tone: 0.5 } },
+      { time: 0.0625, trackIndex: 0, velocity: 100, params: { pitch: 200, decay: 0.2, tone: 0.5 } },
+    ]);
+  });
+
+  it('shifts hits by the groove without pulling any before the start', () => {
+    const pattern = createPattern([{ steps: [hit(), hit()] }], {
+      groove: {
+        template: { id: 'test', name: 'Test', timing: [-0.25, 0.25], velocity: [1, 0.5] },
+        amount: 1,
+      },
+    });
+
+    // The next loop's first hit is pulled back into the range
+    expect(summarize(renderEvents(pattern, 0, 0.5))).toEqual([
+      { time: 0, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 0.15625, trackIndex: 0, velocity: 50, params: PARAMS },
+      { time: 0.21875, trackIndex: 0, velocity: 100, params: PARAMS },
+      { time: 0.40625, trackIndex: 0, velocity: 50, params: PARAMS },
+      { time: 0.46875, trackIndex: 0, velocity: 100, params: PARAMS },
+    ]);
+  });
+
+  it('rolls probability from the pattern seed', () => {
+    const pattern = createPattern([{ steps: [hit({ probability: 0.5 })] }]);
+    const times = (seed: number) =>
+      renderEvents({ ...pattern, seed }, 0, 2).map(event => event.time);
+
+    expect(times(1)).toEqual([0.25, 1.125, 1.25, 1.75]);
+    expect(times(1)).toEqual(times(1));
+    expect(times(2)).not.toEqual(times(1));
+  });
+});
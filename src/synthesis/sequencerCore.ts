@@ -0,0 +1,188 @@
+// Headless sequencer core - resolves pattern steps into trigger events without audio or timers
+
+import { MuteScene, Pattern, SynthParameters } from '../types/pattern';
+import type { ParameterSlide } from './engines/BaseDrumSynth';
+import { getSecondsPerStep } from '../utils/patternTiming';
+import { evaluateCondition, updatesPreviousCondition } from '../utils/trigConditions';
+import { expandRatchet } from '../utils/ratchets';
+import { getSlideTarget, interpolateParams } from '../utils/parameterSlides';
+import { getGrooveOffset, getGrooveVelocity, getTrackGroove } from '../utils/grooves';
+import { hashRandom } from '../utils/random';
+import { getDirectionStep } from '../utils/playDirection';
+import { getAudibleTracks } from '../utils/muteScenes';
+
+/**
+ * One drum hit, ready to play, render or send out
+ */
+export interface TriggerEvent {
+  time: number; // Seconds, in the timebase of the step times passed in
+  trackIndex: number;
+  trackId: string;
+  synthType: string;
+  velocity: number; // 0-127, after groove
+  params: SynthParameters; // Track parameters merged with step locks
+  slide?: ParameterSlide;
+}
+
+/**
+ * Time source for the scheduler. now() shares the timebase of trigger times.
+ */
+export interface Clock {
+  now(): number; // Seconds
+  start(interval: number, onTick: () => void): void; // Interval in ms
+  stop(): void;
+  setTimeout(callback: () => void, delay: number): void; // Delay in ms
+}
+
+/**
+ * Where scheduled events go - the audio engine, a recorder, MIDI out
+ */
+export interface TriggerOutput {
+  isReady(): boolean;
+  trigger(event: TriggerEvent): void;
+  click?(time: number, accent: boolean): void;
+}
+
+/**
+ * Playback state carried from one step to the next
+ */
+export interface StepContext {
+  fill: boolean;
+  previousConditions: boolean[]; // Per-track PRE flag
+  windowStart?: number; // No hit is scheduled before this, e.g. the start of the lookahead window
+  mutes?: MuteScene | null; // Performance mutes, replacing the pattern's mute/solo
+}
+
+export interface StepResult {
+  events: TriggerEvent[];
+  trackSteps: number[];
+  previousConditions: boolean[];
+}
+
+/**
+ * Each track's own step for a step count - tracks loop over their own
+ * length in their own direction
+ */
+export function getTrackSteps(pattern: Pattern, stepCount: number): number[] {
+  return pattern.tracks.map((track, trackIndex) =>
+    getDirectionStep(track.direction ?? 'forward', track.length, stepCount, pattern.seed, trackIndex)
+  );
+}
+
+/**
+ * Resolve one step of a pattern into trigger events
+ * @param step - Step within the master loop (Pattern.steps)
+ * @param stepCount - Steps elapsed since start, wrapped per track length
+ * @param time - Grid time of the step
+ */
+export function resolveStep(
+  pattern: Pattern,
+  step: number,
+  stepCount: number,
+  time: number,
+  context: StepContext
+): StepResult {
+  const trackSteps = getTrackSteps(pattern, stepCount);
+  const nextTrackSteps = getTrackSteps(pattern, stepCount + 1);
+  const previousConditions = [...context.previousConditions];
+  const events: TriggerEvent[] = [];
+
+  // Performance mutes take over from the pattern's own mute/solo
+  const audible = getAudibleTracks(pattern, context.mutes);
+  const secondsPerStep = getSecondsPerStep(pattern.bpm, pattern.stepResolution);
+
+  pattern.tracks.forEach((track, trackIndex) => {
+    const stepData = track.steps[trackSteps[trackIndex]];
+
+    if (!stepData?.active) return;
+
+    // Conditional trigs - evaluated before mutes so PRE chains stay stable
+    if (stepData.condition) {
+      const result = evaluateCondition(stepData.condition, {
+        loop: Math.floor(stepCount / track.length),
+        fill: context.fill,
+        previous: previousConditions[trackIndex] ?? false,
+      });
+      if (updatesPreviousCondition(stepData.condition)) {
+        previousConditions[trackIndex] = result;
+      }
+      if (!result) return;
+    }
+
+    if (!audible[trackIndex]) return;
+
+    // Apply probability - seeded per track and step so every playback matches
+    if (hashRandom(pattern.seed, trackIndex, stepCount) >= stepData.probability) return;
+
+    // Groove shapes timing and velocity along the master loop
+    const groove = getTrackGroove(pattern, trackIndex);
+
+    // Track volume is applied by the mixer channel, not the velocity
+    const velocity = Math.min(127, stepData.velocity * getGrooveVelocity(groove, step));
+
+    // Merge track parameters with step-specific overrides
+    const triggerParams = {
+      ...track.synthParams,
+      ...stepData.parameters
+    } as SynthParameters;
+
+    // Apply groove and per-step micro timing offset (ms) to the step time.
+    // Early offsets stop at the window start rather than landing in the past.
+    const triggerTime = Math.max(
+      context.windowStart ?? -Infinity,
+      time + getGrooveOffset(groove, step) * secondsPerStep + stepData.microTiming / 1000
+    );
+
+    // Sliding steps glide towards the next step's locks over the step
+    const slideTarget = getSlideTarget(track, trackSteps[trackIndex], nextTrackSteps[trackIndex]);
+
+    // Ratchets repeat the hit at even fractions of the step
+    expandRatchet(stepData.ratchet, secondsPerStep).forEach(hit => {
+      // Later ratchet hits start further along the slide
+      const hitParams = slideTarget
+        ? interpolateParams(triggerParams, slideTarget, hit.offset / secondsPerStep)
+        : triggerParams;
+
+      events.push({
+        time: triggerTime + hit.offset,
+        trackIndex,
+        trackId: track.id,
+        synthType: track.synthType,
+        velocity: velocity * hit.velocityScale,
+        params: { ...hitParams, pitch: hitParams.pitch * hit.pitchScale },
+        slide: slideTarget ? { params: slideTarget, duration: secondsPerStep - hit.offset } : undefined,
+      });
+    });
+  });
+
+  return { events, trackSteps, previousConditions };
+}
+
+/**
+ * Every trigger event a looping pattern produces in [from, to), with its
+ * first step at time 0. Deterministic - the same pattern always gives the same list.
+ */
+export function renderEvents(
+  pattern: Pattern,
+  from: number,
+  to: number,
+  options: { fill?: boolean } = {}
+): TriggerEvent[] {
+  const secondsPerStep = getSecondsPerStep(pattern.bpm, pattern.stepResolution);
+  const events: TriggerEvent[] = [];
+  let previousConditions: boolean[] = [];
+
+  // Conditions depend on earlier steps, so resolve from the start. Steps just
+  // past the range are included since groove and micro timing can pull hits earlier.
+  for (let stepCount = 0; stepCount * secondsPerStep < to + secondsPerStep; stepCount++) {
+    const result = resolveStep(pattern, stepCount % pattern.steps, stepCount, stepCount * secondsPerStep, {
+      fill: options.fill ?? false,
+      previousConditions,
+      windowStart: 0, // Hits pulled ahead of the first step play with it
+    });
+    previousConditions = result.previousConditions;
+    events.push(...result.events.filter(event => event.time >= from && event.time < to));
+  }
+
+  return events.sort((a, b) => a.time - b.time);
+}
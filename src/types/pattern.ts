@@ -4,32 +4,186 @@ export interface Pattern {
   id: string;
   name: string;
   bpm: number; // 60-180 BPM
-  swing: number; // 0-1 (0% to 100%)
+  groove: GrooveAssignment; // Replaces the v1 `swing` value
+  timeSignature: TimeSignature;
+  stepResolution: StepResolution; // Note value of one step
+  seed: number; // 32-bit seed for probability, randomize and noise
+  genre?: string; // Free-form tag used to pick style sources
+  master: MasterSettings; // Master bus chain
+  effects: SendEffects; // Effects on the send buses
+  sidechain: SidechainSettings; // Ducking keyed from one track's hits
   tracks: Track[]; // 8 tracks
-  steps: number; // 16 or 32 steps
+  steps: number; // 16 or 32 steps (master loop length)
   created: number; // timestamp
   version: number;
 }
 
+// Master bus chain: EQ -> compressor -> limiter, each with a bypass
+export interface MasterSettings {
+  eq: {
+    enabled: boolean;
+    low: number; // dB, shelf at 200 Hz
+    mid: number; // dB, peak at 1 kHz
+    high: number; // dB, shelf at 5 kHz
+  };
+  compressor: {
+    enabled: boolean;
+    threshold: number; // dB
+    ratio: number;
+    attack: number; // seconds
+    release: number; // seconds
+    makeup: number; // dB
+  };
+  limiter: {
+    enabled: boolean;
+    ceiling: number; // dB
+  };
+}
+
+// Note value of a tempo-synced time, d = dotted, t = triplet
+export type NoteDivision = '1/4' | '1/8d' | '1/8' | '1/8t' | '1/16d' | '1/16' | '1/16t' | '1/32';
+
+// Send A feeds the delay, send B the reverb
+export interface SendEffects {
+  delay: {
+    division: NoteDivision;
+    feedback: number; // 0-0.95
+    filter: number; // Hz, lowpass on the repeats
+    pingPong: boolean;
+    level: number; // 0-1 return
+  };
+  reverb: {
+    size: number; // 0-1, pre-delay and early reflection spread
+    decay: number; // Seconds to fall by 60 dB
+    damping: number; // 0-1, how fast highs die away
+    level: number; // 0-1 return
+  };
+}
+
+// Every hit of the source track ducks the targets' gain, scaled by velocity
+export interface SidechainSettings {
+  enabled: boolean;
+  source: string | null; // Key track id
+  tracks: string[]; // Ducked track ids
+  sends: number[]; // Send buses whose effect returns are ducked
+  amount: number; // 0-1 gain reduction at full velocity
+  attack: number; // Seconds to reach full ducking
+  release: number; // Seconds to recover
+}
+
+// Named template of per-step timing and velocity, cycled along the master loop
+export interface Groove {
+  id: string;
+  name: string;
+  timing: number[]; // Offset per step as a fraction of a step (-0.5 to +0.5)
+  velocity: number[]; // Velocity multiplier per step (0-1.5)
+  builtin?: boolean;
+}
+
+export interface GrooveAssignment {
+  template: Groove; // Copied in so patterns stay self-contained when shared
+  amount: number; // 0-1
+}
+
+// Ordered list of saved patterns played back to back
+export interface Song {
+  id: string;
+  name: string;
+  entries: SongEntry[];
+  created: number; // timestamp
+  version: number;
+}
+
+export interface SongEntry {
+  id: string;
+  patternId: string; // References a Pattern in the library
+  repeats: number; // 1-64 loops of the pattern
+}
+
+// A song entry resolved to its pattern, ready for playback
+export interface ArrangementEntry {
+  entryId: string; // SongEntry this was resolved from
+  pattern: Pattern;
+  repeats: number;
+}
+
+export type PlayMode = 'pattern' | 'song';
+
+export interface TimeSignature {
+  numerator: number; // Beats per bar (1-16)
+  denominator: 4 | 8; // Beat note value
+}
+
+// 8th notes, 16th notes, 16th-note triplets, 32nd notes
+export type StepResolution = '8n' | '16n' | '16t' | '32n';
+
 export interface Track {
   id: string;
   name: string;
   synthType: 'kick' | 'snare' | 'hihat' | 'clap' | 'rim' | 'tom' | 'perc1' | 'perc2';
-  volume: number; // 0-1
+  volume: number; // 0-1, channel fader
+  pan: number; // -1 (left) to 1 (right)
+  sends: number[]; // 0-1 level to each send bus
+  inserts: InsertEffect[]; // Processed in order between the synth and the channel
   mute: boolean;
   solo: boolean;
+  length: number; // 1-64 steps, loops independently of other tracks
+  direction?: PlayDirection; // Defaults to forward
+  groove?: GrooveAssignment; // Overrides the pattern groove
   steps: StepData[];
   synthParams: SynthParameters;
 }
 
+export type InsertType = 'filter' | 'bitcrusher' | 'wavefolder' | 'transient';
+
+// One slot in a track's insert chain. Steps lock its parameters under
+// `${id}.${param}`, so locks follow the insert when the chain is reordered.
+export interface InsertEffect {
+  id: string;
+  type: InsertType;
+  enabled: boolean;
+  params: Record<string, number>;
+}
+
+// Performance mute/solo snapshot by track index - never saved with the pattern
+export interface MuteScene {
+  mute: boolean[];
+  solo: boolean[];
+}
+
+// When performance mute changes take effect
+export type MuteQuantize = 'instant' | 'beat' | 'bar';
+
+// Order a track plays its steps in
+export type PlayDirection = 'forward' | 'reverse' | 'pingpong' | 'random' | 'walk';
+
 export interface StepData {
   active: boolean;
   velocity: number; // 0-127
   probability: number; // 0-1
-  microTiming: number; // -20 to +20ms
+  microTiming: number; // -20 to +20ms, recorded hits keep up to half a step
+  condition?: TrigCondition; // Deterministic loop-based condition
+  ratchet?: Ratchet; // Repeats the hit within the step
+  slide?: boolean; // Glide locked parameters towards the next step's locks
   parameters?: Partial<SynthParameters>; // Per-step parameter overrides
 }
 
+export interface Ratchet {
+  count: number; // 2-8 hits within one step
+  velocityRamp: 'none' | 'up' | 'down';
+  pitchRamp: number; // Semitones from first to last hit (-12 to +12)
+}
+
+// Conditional trig, evaluated against the track's loop count and fill state
+export type TrigCondition =
+  | { type: 'ratio'; play: number; of: number } // Plays on loop `play` of every `of` (e.g. 3:4)
+  | { type: 'fill' } // Only while fill mode is on
+  | { type: 'notFill' } // Only while fill mode is off
+  | { type: 'pre' } // Only if the previous conditional step on this track played
+  | { type: 'notPre' } // Only if it did not
+  | { type: 'first' } // Only on the first loop
+  | { type: 'notFirst' }; // On every loop but the first
+
 export interface SynthParameters {
   // Common parameters for all synths
   pitch: number;
@@ -0,0 +1,48 @@
+// Euclidean rhythm generation - hits spread as evenly as possible over the steps
+
+export interface EuclideanOptions {
+  hits: number; // Number of active steps
+  steps: number; // Track length to fill
+  rotation: number; // Steps to rotate the rhythm right
+  accents: number; // Number of hits to accent, spread evenly over the hits
+}
+
+export interface EuclideanStep {
+  active: boolean;
+  accent: boolean;
+}
+
+export const ACCENT_VELOCITY = 127;
+export const NORMAL_VELOCITY = 90;
+
+/**
+ * Evenly distribute `hits` over `steps` (Bresenham form of Bjorklund's algorithm),
+ * starting with a hit on the first step before rotation
+ */
+export function euclideanRhythm(hits: number, steps: number, rotation: number = 0): boolean[] {
+  if (steps <= 0) return [];
+
+  const count = Math.max(0, Math.min(steps, Math.round(hits)));
+  const rhythm = Array.from({ length: steps }, (_, i) =>
+    count > 0 && Math.floor((i * count) / steps) !== Math.floor(((i - 1) * count) / steps)
+  );
+
+  // Rotate right, wrapping negative values
+  const shift = ((Math.round(rotation) % steps) + steps) % steps;
+  return rhythm.map((_, i) => rhythm[(i - shift + steps) % steps]);
+}
+
+/**
+ * Generate a track's steps, with accents placed on a Euclidean subset of the hits
+ */
+export function generateEuclidean(options: EuclideanOptions): EuclideanStep[] {
+  const rhythm = euclideanRhythm(options.hits, options.steps, options.rotation);
+  const hitCount = rhythm.filter(Boolean).length;
+  const accents = euclideanRhythm(options.accents, hitCount);
+
+  let hitIndex = 0;
+  return rhythm.map(active => ({
+    active,
+    accent: active && (accents[hitIndex++] ?? false),
+  }));
+}
@@ -0,0 +1,131 @@
+// Groove templates - presets, extraction from micro timing, and evaluation
+
+import { Groove, GrooveAssignment, Pattern } from '../types/pattern';
+import { getSecondsPerStep } from './patternTiming';
+
+export const MAX_GROOVE_OFFSET = 0.5; // Steps
+export const MAX_GROOVE_VELOCITY = 1.5;
+
+/**
+ * MPC-style swing: the second 16th of each pair lands at `percent` of the 8th
+ */
+function mpcSwing(percent: number): Groove {
+  return {
+    id: `mpc-${percent}`,
+    name: `MPC ${percent}%`,
+    timing: [0, (percent - 50) / 50],
+    velocity: [1, 1],
+    builtin: true,
+  };
+}
+
+export const STRAIGHT_GROOVE: Groove = {
+  id: 'straight',
+  name: 'Straight',
+  timing: [0],
+  velocity: [1],
+  builtin: true,
+};
+
+export const GROOVE_PRESETS: Groove[] = [
+  STRAIGHT_GROOVE,
+  {
+    // Odd steps late by up to half a step
+    id: 'swing',
+    name: 'Swing',
+    timing: [0, 0.5],
+    velocity: [1, 1],
+    builtin: true,
+  },
+  mpcSwing(54),
+  mpcSwing(58),
+  mpcSwing(62),
+  mpcSwing(66),
+  mpcSwing(71),
+  mpcSwing(75),
+  {
+    id: 'shuffle',
+    name: 'Shuffle',
+    timing: [0, 1 / 3, 0, 1 / 3],
+    velocity: [1, 0.7, 0.9, 0.7],
+    builtin: true,
+  },
+  {
+    // Fixed "random" offsets so the feel is the same on every run
+    id: 'drunk',
+    name: 'Drunk',
+    timing: [0, 0.12, -0.06, 0.2, 0.04, 0.15, -0.1, 0.25, 0.02, 0.1, -0.04, 0.18, 0.06, 0.22, -0.08, 0.3],
+    velocity: [1, 0.8, 0.95, 0.75, 0.9, 0.85, 1, 0.7, 1, 0.8, 0.9, 0.75, 0.95, 0.85, 1, 0.7],
+    builtin: true,
+  },
+];
+
+/**
+ * Default groove for new patterns - no timing or velocity change
+ */
+export function createDefaultGroove(): GrooveAssignment {
+  return { template: STRAIGHT_GROOVE, amount: 1 };
+}
+
+/**
+ * Groove for a track - its own if set, otherwise the pattern's
+ */
+export function getTrackGroove(pattern: Pattern, trackIndex: number): GrooveAssignment {
+  return pattern.tracks[trackIndex]?.groove ?? pattern.groove;
+}
+
+/**
+ * Timing offset in steps for a master loop step
+ */
+export function getGrooveOffset(groove: GrooveAssignment, step: number): number {
+  const { timing } = groove.template;
+  if (timing.length === 0) return 0;
+  return timing[step % timing.length] * groove.amount;
+}
+
+/**
+ * Velocity multiplier for a master loop step
+ */
+export function getGrooveVelocity(groove: GrooveAssignment, step: number): number {
+  const { velocity } = groove.template;
+  if (velocity.length === 0) return 1;
+  return 1 + (velocity[step % velocity.length] - 1) * groove.amount;
+}
+
+/**
+ * Build a groove from a pattern's micro timing and velocities.
+ * Each master step takes the average over the tracks' active steps.
+ */
+export function extractGroove(pattern: Pattern, name: string): Groove {
+  const secondsPerStep = getSecondsPerStep(pattern.bpm, pattern.stepResolution);
+  const timing: number[] = [];
+  const velocities: number[] = [];
+
+  for (let step = 0; step < pattern.steps; step++) {
+    const hits = pattern.tracks
+      .map(track => track.steps[step % track.length])
+      .filter(stepData => stepData?.active);
+
+    if (hits.length === 0) {
+      timing.push(0);
+      velocities.push(0);
+      continue;
+    }
+
+    const avgTiming = hits.reduce((sum, hit) => sum + hit.microTiming, 0) / hits.length;
+    const offset = avgTiming / 1000 / secondsPerStep;
+    timing.push(Math.max(-MAX_GROOVE_OFFSET, Math.min(MAX_GROOVE_OFFSET, offset)));
+    velocities.push(hits.reduce((sum, hit) => sum + hit.velocity, 0) / hits.length);
+  }
+
+  // Scale velocities relative to the loudest step; empty steps stay neutral
+  const loudest = Math.max(...velocities);
+  const velocity = velocities.map(v => (v > 0 && loudest > 0 ? v / loudest : 1));
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    timing,
+    velocity,
+  };
+}
@@ -0,0 +1,112 @@
+// Insert effects - parameter definitions, defaults and step lock keys for track insert chains
+
+import { InsertEffect, InsertType, SynthParameters, Track } from '../types/pattern';
+
+export const MAX_INSERTS = 4;
+
+export interface InsertParamConfig {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+  unit: string;
+}
+
+export const FILTER_MODES = ['LP', 'HP', 'BP']; // By the filter's mode parameter
+
+export const INSERT_TYPES: { value: InsertType; label: string; params: InsertParamConfig[] }[] = [
+  {
+    value: 'filter',
+    label: 'Filter',
+    params: [
+      { key: 'mode', label: 'Mode', min: 0, max: 2, default: 0, unit: '' },
+      { key: 'cutoff', label: 'Cutoff', min: 20, max: 20000, default: 2000, unit: 'Hz' },
+      { key: 'resonance', label: 'Reso', min: 0.1, max: 20, default: 1, unit: '' },
+    ],
+  },
+  {
+    value: 'bitcrusher',
+    label: 'Bitcrusher',
+    params: [
+      { key: 'bits', label: 'Bits', min: 1, max: 16, default: 8, unit: '' },
+      { key: 'downsample', label: 'Rate ÷', min: 1, max: 32, default: 4, unit: '' },
+      { key: 'mix', label: 'Mix', min: 0, max: 1, default: 1, unit: '' },
+    ],
+  },
+  {
+    value: 'wavefolder',
+    label: 'Wavefolder',
+    params: [
+      { key: 'drive', label: 'Drive', min: 0, max: 1, default: 0.3, unit: '' },
+      { key: 'mix', label: 'Mix', min: 0, max: 1, default: 1, unit: '' },
+    ],
+  },
+  {
+    value: 'transient',
+    label: 'Transient',
+    params: [
+      { key: 'attack', label: 'Attack', min: -1, max: 1, default: 0.5, unit: '' },
+      { key: 'sustain', label: 'Sustain', min: -1, max: 1, default: 0, unit: '' },
+    ],
+  },
+];
+
+/**
+ * Parameter definitions for an insert type
+ */
+export function getInsertParams(type: InsertType): InsertParamConfig[] {
+  return INSERT_TYPES.find(t => t.value === type)?.params ?? [];
+}
+
+/**
+ * A new, enabled insert with default parameters
+ */
+export function createInsert(type: InsertType): InsertEffect {
+  const params: Record<string, number> = {};
+  getInsertParams(type).forEach(param => {
+    params[param.key] = param.default;
+  });
+  return { id: crypto.randomUUID(), type, enabled: true, params };
+}
+
+/**
+ * Step parameter key that locks an insert parameter
+ */
+export function getInsertLockKey(insertId: string, param: string): string {
+  return `${insertId}.${param}`;
+}
+
+/**
+ * An insert's parameters for one trigger: its own values with any locks from
+ * the step (or slide target) applied. Returns only the locked ones when
+ * `lockedOnly` is set.
+ */
+export function resolveInsertParams(
+  insert: InsertEffect,
+  params: Partial<SynthParameters> | undefined,
+  lockedOnly = false
+): Record<string, number> {
+  const result: Record<string, number> = lockedOnly ? {} : { ...insert.params };
+  const prefix = `${insert.id}.`;
+  Object.entries(params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && key.startsWith(prefix)) {
+      result[key.slice(prefix.length)] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Readable name for a step lock key, e.g. "Filter cutoff" for an insert lock
+ */
+export function formatLockKey(track: Track, key: string): string {
+  const [insertId, param] = key.split('.');
+  if (param === undefined) return key;
+
+  const insert = track.inserts.find(i => i.id === insertId);
+  if (!insert) return key;
+
+  const label = INSERT_TYPES.find(t => t.value === insert.type)?.label ?? insert.type;
+  return `${label} ${param}`;
+}
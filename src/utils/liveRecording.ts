@@ -0,0 +1,90 @@
+// Live recording - pad keys, quantize and velocity for finger drumming
+
+import { Track } from '../types/pattern';
+import { getDirectionStep } from './playDirection';
+
+export type RecordMode = 'overdub' | 'replace';
+export type RecordVelocity = 'shift' | 'fixed';
+
+export interface RecordSettings {
+  mode: RecordMode; // Overdub adds hits, replace clears the steps a played track passes over
+  quantize: number; // 0 (as played) to 1 (fully on the grid)
+  velocity: RecordVelocity; // Shift for accents, or always the fixed accent
+  accentVelocity: number;
+}
+
+export interface QuantizedHit {
+  stepIndex: number;
+  microTiming: number; // ms left over after quantizing
+}
+
+// Home row, left to right, plays tracks 1-8
+export const PAD_KEYS = ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon'];
+export const PAD_LABELS = ['A', 'S', 'D', 'F', 'J', 'K', 'L', ';'];
+
+export const NORMAL_HIT_VELOCITY = 90;
+
+export const DEFAULT_RECORD_SETTINGS: RecordSettings = {
+  mode: 'overdub',
+  quantize: 1,
+  velocity: 'shift',
+  accentVelocity: 127,
+};
+
+/**
+ * Track index for a pad key, or -1
+ */
+export function getPadTrack(code: string): number {
+  return PAD_KEYS.indexOf(code);
+}
+
+/**
+ * Velocity for a pad hit
+ */
+export function getHitVelocity(settings: RecordSettings, shiftKey: boolean): number {
+  if (settings.velocity === 'fixed' || shiftKey) return settings.accentVelocity;
+  return NORMAL_HIT_VELOCITY;
+}
+
+/**
+ * Snap a played position to a track step. Quantize strength moves the hit
+ * part of the way to the nearest step and the remainder becomes micro-timing.
+ * The step is the one the track plays at that moment, following its direction.
+ * @param position - Fractional master step count when the pad was hit
+ */
+export function quantizeHit(
+  position: number,
+  track: Pick<Track, 'length' | 'direction'>,
+  trackIndex: number,
+  seed: number,
+  quantize: number,
+  secondsPerStep: number
+): QuantizedHit {
+  const nearest = Math.max(0, Math.round(position));
+  const remainder = (position - nearest) * (1 - quantize);
+
+  return {
+    stepIndex: getDirectionStep(track.direction ?? 'forward', track.length, nearest, seed, trackIndex),
+    microTiming: Math.round(remainder * secondsPerStep * 1000),
+  };
+}
+
+/**
+ * Track steps the playhead reaches after one step count, up to and including
+ * another, following the track's direction. Nothing when the count went back,
+ * e.g. after a pattern switch.
+ */
+export function getPassedSteps(
+  track: Pick<Track, 'length' | 'direction'>,
+  trackIndex: number,
+  seed: number,
+  from: number,
+  to: number
+): number[] {
+  const steps = new Set<number>();
+  // Two passes cover a whole ping-pong turn
+  for (let stepCount = Math.max(from + 1, to - 2 * track.length + 1); stepCount <= to; stepCount++) {
+    steps.add(getDirectionStep(track.direction ?? 'forward', track.length, stepCount, seed, trackIndex));
+  }
+  return Array.from(steps);
+}
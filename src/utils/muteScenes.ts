@@ -0,0 +1,42 @@
+// Mute scenes - performance mute/solo snapshots kept apart from the pattern
+
+import { MuteQuantize, MuteScene, Pattern } from '../types/pattern';
+
+export const MUTE_SCENE_COUNT = 8;
+
+export const MUTE_QUANTIZE_OPTIONS: { value: MuteQuantize; label: string }[] = [
+  { value: 'instant', label: 'Instant' },
+  { value: 'beat', label: 'Next beat' },
+  { value: 'bar', label: 'Next bar' },
+];
+
+/**
+ * Snapshot of a pattern's own mute/solo state
+ */
+export function captureMuteScene(pattern: Pattern): MuteScene {
+  return {
+    mute: pattern.tracks.map(track => track.mute),
+    solo: pattern.tracks.map(track => track.solo),
+  };
+}
+
+/**
+ * Copy of a scene with one track's mute or solo flipped
+ */
+export function toggleSceneTrack(scene: MuteScene, key: keyof MuteScene, trackIndex: number): MuteScene {
+  const next = { mute: [...scene.mute], solo: [...scene.solo] };
+  next[key][trackIndex] = !next[key][trackIndex];
+  return next;
+}
+
+/**
+ * Which tracks are heard after mute and solo, with performance mutes
+ * replacing the pattern's own when given
+ */
+export function getAudibleTracks(pattern: Pattern, mutes?: MuteScene | null): boolean[] {
+  const muted = pattern.tracks.map((track, i) => mutes?.mute[i] ?? track.mute);
+  const soloed = pattern.tracks.map((track, i) => mutes?.solo[i] ?? track.solo);
+  const hasSolo = soloed.some(Boolean);
+
+  return pattern.tracks.map((_, i) => !muted[i] && (!hasSolo || soloed[i]));
+}
@@ -0,0 +1,44 @@
+// Parameter slides - gliding locked parameters from one step to the next
+
+import { SynthParameters, Track } from '../types/pattern';
+
+/**
+ * Locked parameters of the step played after `stepIndex` that a sliding step
+ * glides towards, or null if the step doesn't slide or there is nothing to reach
+ */
+export function getSlideTarget(
+  track: Track,
+  stepIndex: number,
+  nextStepIndex = (stepIndex + 1) % track.length
+): Partial<SynthParameters> | null {
+  if (!track.steps[stepIndex]?.slide) return null;
+
+  const next = track.steps[nextStepIndex];
+  if (!next?.parameters || Object.keys(next.parameters).length === 0) return null;
+
+  return next.parameters;
+}
+
+/**
+ * Interpolate parameters part of the way towards a slide target.
+ * Values are interpolated exponentially when both ends are positive,
+ * so frequencies glide evenly in pitch.
+ */
+export function interpolateParams(
+  from: SynthParameters,
+  to: Partial<SynthParameters>,
+  amount: number
+): SynthParameters {
+  const result: SynthParameters = { ...from };
+
+  Object.entries(to).forEach(([key, target]) => {
+    const start = from[key];
+    if (target === undefined || start === undefined) return;
+
+    result[key] = start > 0 && target > 0
+      ? start * Math.pow(target / start, amount)
+      : start + (target - start) * amount;
+  });
+
+  return result;
+}
@@ -0,0 +1,77 @@
+// Migration of patterns saved by older versions
+
+import { describe, expect, it } from 'vitest';
+import { Pattern } from '../types/pattern';
+import { normalizePattern } from './patternDefaults';
+import { getGrooveOffset, MAX_GROOVE_OFFSET } from './grooves';
+import { getSecondsPerStep } from './patternTiming';
+
+/**
+ * Step times as the v1 sequencer scheduled them: 16th notes, with the
+ * step after each odd step pushed back by swing * half a step
+ */
+const getV1StepTimes = (bpm: number, swing: number, steps: number, count: number): number[] => {
+  const secondsPerStep = 60 / bpm / 4;
+  const times: number[] = [];
+  let time = 0;
+  let step = 0;
+
+  for (let i = 0; i < count; i++) {
+    times.push(time);
+    time += secondsPerStep + (step % 2 === 1 && swing > 0 ? secondsPerStep * swing * 0.5 : 0);
+    step = (step + 1) % steps;
+  }
+  return times;
+};
+
+/**
+ * Step times of a migrated pattern: evenly spaced steps shifted by the groove
+ */
+const getStepTimes = (pattern: Pattern, count: number): number[] => {
+  const secondsPerStep = getSecondsPerStep(pattern.bpm, pattern.stepResolution);
+  return Array.from({ length: count }, (_, stepCount) =>
+    (stepCount + getGrooveOffset(pattern.groove, stepCount % pattern.steps)) * secondsPerStep
+  );
+};
+
+const createV1Pattern = (bpm: number, swing: number): Pattern => ({
+  id: 'v1',
+  name: 'v1',
+  bpm,
+  swing,
+  steps: 16,
+  tracks: [],
+  created: 0,
+  version: 1,
+}) as unknown as Pattern;
+
+describe('normalizePattern', () => {
+  it.each([
+    [120, 0],
+    [120, 0.3],
+    [90, 0.5],
+    [137, 0.75],
+    [174, 1],
+  ])('keeps v1 swing timing at %d BPM and swing %d', (bpm, swing) => {
+    const migrated = normalizePattern(createV1Pattern(bpm, swing));
+    const expected = getV1StepTimes(bpm, swing, 16, 48);
+
+    getStepTimes(migrated, 48).forEach((time, i) => {
+      expect(time).toBeCloseTo(expected[i], 9);
+    });
+  });
+
+  it('keeps migrated offsets within the groove range', () => {
+    const { groove } = normalizePattern(createV1Pattern(120, 1));
+
+    groove.template.timing.forEach(offset => {
+      expect(Math.abs(offset * groove.amount)).toBeLessThanOrEqual(MAX_GROOVE_OFFSET);
+    });
+  });
+
+  it('leaves patterns that already have a groove alone', () => {
+    const pattern = normalizePattern(createV1Pattern(120, 0.5));
+
+    expect(normalizePattern(pattern)).toEqual(pattern);
+  });
+});
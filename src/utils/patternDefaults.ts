@@ -0,0 +1,133 @@
+// Default values and migration for pattern data
+
+import { MasterSettings, Pattern, SendEffects, SidechainSettings, StepData, Track } from '../types/pattern';
+import { createDefaultGroove } from './grooves';
+import { seedFromString } from './random';
+
+export const MIN_TRACK_LENGTH = 1;
+export const MAX_TRACK_LENGTH = 64;
+export const SEND_BUS_COUNT = 2;
+export const SEND_BUS_NAMES = ['Delay', 'Reverb']; // By send bus index
+
+/**
+ * Create an empty (inactive) step
+ */
+export function createEmptyStep(): StepData {
+  return {
+    active: false,
+    velocity: 100,
+    probability: 1.0,
+    microTiming: 0,
+  };
+}
+
+/**
+ * Send levels for a track with nothing sent
+ */
+export function createEmptySends(): number[] {
+  return new Array(SEND_BUS_COUNT).fill(0);
+}
+
+/**
+ * Master chain for new patterns - flat EQ, compressor bypassed, limiter
+ * catching peaks so hot patterns don't clip
+ */
+export function createDefaultMaster(): MasterSettings {
+  return {
+    eq: { enabled: true, low: 0, mid: 0, high: 0 },
+    compressor: { enabled: false, threshold: -18, ratio: 3, attack: 0.01, release: 0.2, makeup: 0 },
+    limiter: { enabled: true, ceiling: -1 },
+  };
+}
+
+/**
+ * Send effects for new patterns - silent until tracks send to them
+ */
+export function createDefaultEffects(): SendEffects {
+  return {
+    delay: { division: '1/8d', feedback: 0.4, filter: 4000, pingPong: true, level: 0.8 },
+    reverb: { size: 0.5, decay: 1.8, damping: 0.5, level: 0.8 },
+  };
+}
+
+/**
+ * Sidechain for new patterns - off, with settings for a typical kick pump
+ */
+export function createDefaultSidechain(): SidechainSettings {
+  return { enabled: false, source: null, tracks: [], sends: [], amount: 0.6, attack: 0.005, release: 0.2 };
+}
+
+/**
+ * Clamp a track length to the supported range
+ */
+export function clampTrackLength(length: number): number {
+  return Math.max(MIN_TRACK_LENGTH, Math.min(MAX_TRACK_LENGTH, Math.round(length)));
+}
+
+/**
+ * Make sure a track has step data for every step in its length
+ */
+export function ensureTrackSteps(track: Track): void {
+  while (track.steps.length < track.length) {
+    track.steps.push(createEmptyStep());
+  }
+}
+
+/**
+ * Convert the v1 swing value to a tempo and groove with the same timing.
+ * v1 delayed each step after an odd one by swing * half a step, so every
+ * pair of steps ran 2 + swing / 2 steps long with the odd step one plain
+ * step after the even one. A slower tempo stretches the steps to the pair
+ * length and an early offset puts the odd step back where it was.
+ */
+function migrateSwing(swing: number | undefined, bpm: number): Pick<Pattern, 'bpm' | 'groove'> {
+  const amount = Math.max(0, Math.min(1, swing ?? 0));
+  if (amount === 0) return { bpm, groove: createDefaultGroove() };
+
+  const stretch = 1 + amount / 4;
+  return {
+    bpm: bpm / stretch,
+    groove: {
+      template: {
+        id: 'v1-swing',
+        name: `v1 Swing ${Math.round(amount * 100)}%`,
+        timing: [0, 1 / stretch - 1],
+        velocity: [1, 1],
+      },
+      amount: 1,
+    },
+  };
+}
+
+/**
+ * Fill in fields missing from patterns saved by older versions
+ */
+export function normalizePattern(pattern: Pattern): Pattern {
+  const { swing, ...current } = pattern as Pattern & { swing?: number };
+  const steps = current.steps ?? 16;
+  const timing = current.groove ? { bpm: current.bpm, groove: current.groove } : migrateSwing(swing, current.bpm);
+
+  return {
+    ...current,
+    ...timing,
+    steps,
+    seed: current.seed ?? seedFromString(current.id ?? ''),
+    timeSignature: current.timeSignature ?? { numerator: 4, denominator: 4 },
+    stepResolution: current.stepResolution ?? '16n',
+    master: current.master ?? createDefaultMaster(),
+    effects: current.effects ?? createDefaultEffects(),
+    sidechain: current.sidechain ?? createDefaultSidechain(),
+    tracks: current.tracks.map(track => {
+      const normalized: Track = {
+        ...track,
+        length: clampTrackLength(track.length ?? steps),
+        pan: track.pan ?? 0,
+        sends: track.sends ?? createEmptySends(),
+        inserts: track.inserts ?? [],
+        steps: track.steps.map(step => ({ ...createEmptyStep(), ...step })),
+      };
+      ensureTrackSteps(normalized);
+      return normalized;
+    }),
+  };
+}
@@ -1,6 +1,8 @@
-// Import/Export patterns as JSON files
+// Import/Export patterns as JSON files, and export rendered audio
 
 import { Pattern } from '../types/pattern';
+import { renderPattern } from '../synthesis/offlineRender';
+import { encodeWav } from './wavEncoder';
 
 /**
  * Export pattern as JSON file
@@ -21,6 +23,24 @@ export function exportPatternAsJSON(pattern: Pattern): void {
   console.log('Pattern exported:', pattern.name);
 }
 
+/**
+ * Render loops of a pattern offline and download them as a WAV file
+ */
+export async function exportPatternAsWAV(pattern: Pattern, loops = 1): Promise<void> {
+  const buffer = await renderPattern(pattern, loops);
+  const url = URL.createObjectURL(encodeWav(buffer));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pattern.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_${Date.now()}.wav`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+  console.log('Pattern rendered:', pattern.name, `${buffer.duration.toFixed(1)}s`);
+}
+
 /**
  * Import pattern from JSON file
  */
@@ -68,7 +88,6 @@ export function validatePattern(pattern: any): pattern is Pattern {
     typeof pattern.id === 'string' &&
     typeof pattern.name === 'string' &&
     typeof pattern.bpm === 'number' &&
-    typeof pattern.swing === 'number' &&
     Array.isArray(pattern.tracks) &&
     pattern.tracks.length === 8
   );
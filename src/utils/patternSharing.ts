@@ -11,20 +11,36 @@ export function encodePatternToURL(pattern: Pattern): string {
     const simplified = {
       n: pattern.name,
       b: pattern.bpm,
-      s: pattern.swing,
+      g: pattern.groove,
+      sd: pattern.seed,
+      ge: pattern.genre,
+      ms: pattern.master,
+      fx: pattern.effects,
+      sc: pattern.sidechain,
       st: pattern.steps,
+      ts: pattern.timeSignature,
+      r: pattern.stepResolution,
       t: pattern.tracks.map(track => ({
         n: track.name,
         t: track.synthType,
         v: track.volume,
+        pn: track.pan,
+        se: track.sends,
+        ix: track.inserts,
         m: track.mute,
         so: track.solo,
+        l: track.length,
+        d: track.direction,
+        g: track.groove,
         p: track.synthParams,
         s: track.steps.map(step => ({
           a: step.active,
           v: step.velocity,
           pr: step.probability,
           mt: step.microTiming,
+          c: step.condition,
+          r: step.ratchet,
+          sl: step.slide,
           pm: step.parameters
         }))
       }))
@@ -47,25 +63,42 @@ export function decodePatternFromURL(encoded: string): Partial<Pattern> {
     const json = atob(encoded);
     const simplified = JSON.parse(json);
 
-    // Reconstruct the full pattern
+    // Reconstruct the full pattern (v1 links carry `swing`, migrated on load)
     return {
       name: simplified.n,
       bpm: simplified.b,
-      swing: simplified.s,
+      groove: simplified.g,
+      seed: simplified.sd,
+      genre: simplified.ge,
+      master: simplified.ms,
+      effects: simplified.fx,
+      sidechain: simplified.sc,
+      ...(simplified.s !== undefined && { swing: simplified.s }),
       steps: simplified.st,
+      timeSignature: simplified.ts,
+      stepResolution: simplified.r,
       tracks: simplified.t.map((t: any, i: number) => ({
         id: String(i),
         name: t.n,
         synthType: t.t,
         volume: t.v,
+        pan: t.pn,
+        sends: t.se,
+        inserts: t.ix,
         mute: t.m,
         solo: t.so,
+        length: t.l ?? simplified.st,
+        direction: t.d,
+        groove: t.g,
         synthParams: t.p,
         steps: t.s.map((s: any) => ({
           active: s.a,
           velocity: s.v,
           probability: s.pr,
           microTiming: s.mt,
+          condition: s.c,
+          ratchet: s.r,
+          slide: s.sl,
           parameters: s.pm
         }))
       }))
@@ -1,10 +1,12 @@
-// IndexedDB storage for patterns
+// IndexedDB storage for patterns, songs and grooves
 
-import { Pattern } from '../types/pattern';
+import { Groove, Pattern, Song } from '../types/pattern';
 
 const DB_NAME = 'crossbeat-db';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'patterns';
+const SONG_STORE_NAME = 'songs';
+const GROOVE_STORE_NAME = 'grooves';
 
 class PatternStorage {
   private db: IDBDatabase | null = null;
@@ -37,6 +39,19 @@ class PatternStorage {
           objectStore.createIndex('name', 'name', { unique: false });
           console.log('Created patterns object store');
         }
+
+        // Create songs store (added in v2)
+        if (!db.objectStoreNames.contains(SONG_STORE_NAME)) {
+          const songStore = db.createObjectStore(SONG_STORE_NAME, { keyPath: 'id' });
+          songStore.createIndex('created', 'created', { unique: false });
+          console.log('Created songs object store');
+        }
+
+        // Create user grooves store (added in v3)
+        if (!db.objectStoreNames.contains(GROOVE_STORE_NAME)) {
+          db.createObjectStore(GROOVE_STORE_NAME, { keyPath: 'id' });
+          console.log('Created grooves object store');
+        }
       };
     });
   }
@@ -156,6 +171,147 @@ class PatternStorage {
       };
     });
   }
+
+  /**
+   * Save a song
+   */
+  async saveSong(song: Song): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SONG_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SONG_STORE_NAME);
+      const request = store.put(song);
+
+      request.onsuccess = () => {
+        console.log('Song saved:', song.name);
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to save song:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Get all songs
+   */
+  async getAllSongs(): Promise<Song[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SONG_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(SONG_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const songs: Song[] = request.result || [];
+        // Sort by created date, newest first
+        songs.sort((a, b) => b.created - a.created);
+        resolve(songs);
+      };
+
+      request.onerror = () => {
+        console.error('Failed to get songs:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Delete a song
+   */
+  async deleteSong(id: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SONG_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SONG_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => {
+        console.log('Song deleted:', id);
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to delete song:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Save a user groove
+   */
+  async saveGroove(groove: Groove): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([GROOVE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(GROOVE_STORE_NAME);
+      const request = store.put(groove);
+
+      request.onsuccess = () => {
+        console.log('Groove saved:', groove.name);
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to save groove:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Get all user grooves
+   */
+  async getAllGrooves(): Promise<Groove[]> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([GROOVE_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(GROOVE_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const grooves: Groove[] = request.result || [];
+        grooves.sort((a, b) => a.name.localeCompare(b.name));
+        resolve(grooves);
+      };
+
+      request.onerror = () => {
+        console.error('Failed to get grooves:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Delete a user groove
+   */
+  async deleteGroove(id: string): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([GROOVE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(GROOVE_STORE_NAME);
+      const request = store.delete(id);
+
+      request.onsuccess = () => {
+        console.log('Groove deleted:', id);
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to delete groove:', request.error);
+        reject(request.error);
+      };
+    });
+  }
 }
 
 // Global storage instance
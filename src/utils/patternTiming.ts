@@ -0,0 +1,84 @@
+// Timing helpers derived from a pattern's tempo, time signature and step resolution
+
+import { NoteDivision, Pattern, StepResolution, TimeSignature } from '../types/pattern';
+
+// Length of one step in quarter notes
+const STEP_QUARTER_NOTES: Record<StepResolution, number> = {
+  '8n': 1 / 2,
+  '16n': 1 / 4,
+  '16t': 1 / 6,
+  '32n': 1 / 8,
+};
+
+export const STEP_RESOLUTIONS: { value: StepResolution; label: string }[] = [
+  { value: '8n', label: '1/8' },
+  { value: '16n', label: '1/16' },
+  { value: '16t', label: '1/16T' },
+  { value: '32n', label: '1/32' },
+];
+
+export const NOTE_DIVISIONS: { value: NoteDivision; label: string; quarterNotes: number }[] = [
+  { value: '1/4', label: '1/4', quarterNotes: 1 },
+  { value: '1/8d', label: '1/8 dotted', quarterNotes: 3 / 4 },
+  { value: '1/8', label: '1/8', quarterNotes: 1 / 2 },
+  { value: '1/8t', label: '1/8 triplet', quarterNotes: 1 / 3 },
+  { value: '1/16d', label: '1/16 dotted', quarterNotes: 3 / 8 },
+  { value: '1/16', label: '1/16', quarterNotes: 1 / 4 },
+  { value: '1/16t', label: '1/16 triplet', quarterNotes: 1 / 6 },
+  { value: '1/32', label: '1/32', quarterNotes: 1 / 8 },
+];
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { numerator: 2, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 4, denominator: 4 },
+  { numerator: 5, denominator: 4 },
+  { numerator: 6, denominator: 8 },
+  { numerator: 7, denominator: 8 },
+  { numerator: 9, denominator: 8 },
+  { numerator: 12, denominator: 8 },
+];
+
+/**
+ * Duration of one step in seconds (BPM counts quarter notes)
+ */
+export function getSecondsPerStep(bpm: number, resolution: StepResolution): number {
+  return (60.0 / bpm) * STEP_QUARTER_NOTES[resolution];
+}
+
+/**
+ * Duration of a note division in seconds
+ */
+export function getDivisionSeconds(bpm: number, division: NoteDivision): number {
+  const quarterNotes = NOTE_DIVISIONS.find(d => d.value === division)?.quarterNotes ?? 1 / 2;
+  return (60.0 / bpm) * quarterNotes;
+}
+
+/**
+ * Number of steps in one beat of the time signature
+ */
+export function getStepsPerBeat(timeSignature: TimeSignature, resolution: StepResolution): number {
+  const beatQuarterNotes = 4 / timeSignature.denominator;
+  return Math.max(1, Math.round(beatQuarterNotes / STEP_QUARTER_NOTES[resolution]));
+}
+
+/**
+ * Number of steps in one bar of the time signature
+ */
+export function getStepsPerBar(timeSignature: TimeSignature, resolution: StepResolution): number {
+  return getStepsPerBeat(timeSignature, resolution) * timeSignature.numerator;
+}
+
+/**
+ * Duration of the pattern's master loop in seconds, ignoring swing
+ */
+export function getLoopDuration(pattern: Pattern): number {
+  return pattern.steps * getSecondsPerStep(pattern.bpm, pattern.stepResolution);
+}
+
+/**
+ * Format a time signature for display, e.g. "7/8"
+ */
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  return `${timeSignature.numerator}/${timeSignature.denominator}`;
+}
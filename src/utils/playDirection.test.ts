@@ -0,0 +1,38 @@
+// Playback direction - steps played for each step count
+
+import { describe, expect, it } from 'vitest';
+import { getDirectionStep } from './playDirection';
+
+const getSteps = (direction: Parameters<typeof getDirectionStep>[0], length: number, count: number, seed = 1) =>
+  Array.from({ length: count }, (_, stepCount) => getDirectionStep(direction, length, stepCount, seed, 0));
+
+describe('getDirectionStep', () => {
+  it('plays the track forwards, backwards and back and forth', () => {
+    expect(getSteps('forward', 4, 6)).toEqual([0, 1, 2, 3, 0, 1]);
+    expect(getSteps('reverse', 4, 6)).toEqual([3, 2, 1, 0, 3, 2]);
+    expect(getSteps('pingpong', 4, 8)).toEqual([0, 1, 2, 3, 2, 1, 0, 1]);
+  });
+
+  it.each([2, 5, 8, 16])('walks one step at a time across pass boundaries over %d steps', length => {
+    const steps = getSteps('walk', length, length * 12);
+
+    expect(steps[0]).toBe(0);
+    steps.slice(1).forEach((step, i) => {
+      expect([1, length - 1]).toContain((step - steps[i] + length) % length);
+    });
+  });
+
+  it('carries the walk over into the next pass', () => {
+    const length = 8;
+    const steps = getSteps('walk', length, length * 12);
+    const passStarts = steps.filter((_, stepCount) => stepCount % length === 0);
+
+    // Passes pick up where the last one ended rather than all restarting on the first step
+    expect(new Set(passStarts).size).toBeGreaterThan(1);
+  });
+
+  it('walks the same way for the same seed', () => {
+    expect(getSteps('walk', 16, 64)).toEqual(getSteps('walk', 16, 64));
+    expect(getSteps('walk', 16, 64, 2)).not.toEqual(getSteps('walk', 16, 64));
+  });
+});
@@ -0,0 +1,80 @@
+// Playback direction - which step a track plays at each step count
+
+import { PlayDirection } from '../types/pattern';
+import { hashRandom } from './random';
+
+// Extra hash keys so direction rolls don't repeat probability rolls
+const RANDOM_KEY = 1;
+const WALK_KEY = 2;
+const WALK_START_KEY = 3;
+
+export const PLAY_DIRECTIONS: { value: PlayDirection; label: string; symbol: string }[] = [
+  { value: 'forward', label: 'Forward', symbol: '→' },
+  { value: 'reverse', label: 'Reverse', symbol: '←' },
+  { value: 'pingpong', label: 'Ping-pong', symbol: '↔' },
+  { value: 'random', label: 'Random', symbol: '?' },
+  { value: 'walk', label: 'Random walk', symbol: '~' },
+];
+
+/**
+ * Step index a track plays at a step count. Stateless, so the same
+ * seed and count always give the same step.
+ */
+export function getDirectionStep(
+  direction: PlayDirection,
+  length: number,
+  stepCount: number,
+  seed: number,
+  trackIndex: number
+): number {
+  const position = stepCount % length;
+
+  switch (direction) {
+    case 'reverse':
+      return length - 1 - position;
+
+    case 'pingpong': {
+      // End steps play once per turn
+      if (length < 2) return 0;
+      const period = 2 * length - 2;
+      const phase = stepCount % period;
+      return phase < length ? phase : period - phase;
+    }
+
+    case 'random':
+      return Math.floor(hashRandom(seed, trackIndex, stepCount, RANDOM_KEY) * length);
+
+    case 'walk': {
+      // Each pass walks one step either way at a time from its start step to
+      // the next pass's, so the walk carries on across the loop
+      if (length < 2) return 0;
+      const loop = Math.floor(stepCount / length);
+      const start = getWalkStart(length, loop, seed, trackIndex);
+      let distance = (getWalkStart(length, loop + 1, seed, trackIndex) - start + length) % length;
+      if ((distance + length) % 2 !== 0) distance -= length;
+
+      let step = start;
+      for (let i = 0; i < position; i++) {
+        const remaining = length - i;
+        const move = hashRandom(seed, trackIndex, loop, i, WALK_KEY) < (remaining + distance) / (2 * remaining) ? 1 : -1;
+        step += move;
+        distance -= move;
+      }
+      return (step + length) % length;
+    }
+
+    default:
+      return position;
+  }
+}
+
+/**
+ * Step a random walk pass starts on. The first pass starts on the first
+ * step; a pass over an even length always ends on a step of the same
+ * parity, so those start on even steps.
+ */
+function getWalkStart(length: number, loop: number, seed: number, trackIndex: number): number {
+  if (loop === 0) return 0;
+  const spacing = length % 2 === 0 ? 2 : 1;
+  return spacing * Math.floor(hashRandom(seed, trackIndex, loop, WALK_START_KEY) * (length / spacing));
+}
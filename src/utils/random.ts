@@ -0,0 +1,56 @@
+// Seedable pseudo-random numbers so playback and generation are reproducible
+
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Create a generator returning numbers in [0, 1) from a 32-bit seed (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stateless random number in [0, 1) for a seed and a set of integer keys.
+ * The same inputs always give the same value, whatever was drawn before.
+ */
+export function hashRandom(seed: number, ...keys: number[]): number {
+  let hash = seed >>> 0;
+  keys.forEach(key => {
+    hash = Math.imul(hash ^ (key >>> 0), 0x9e3779b1) >>> 0;
+    hash = (hash ^ (hash >>> 16)) >>> 0;
+  });
+  return createRandom(hash)();
+}
+
+/**
+ * Derive a separate seed for one part of a pattern, e.g. one synth
+ */
+export function deriveSeed(seed: number, key: number): number {
+  return Math.floor(hashRandom(seed, key) * 4294967296) >>> 0;
+}
+
+/**
+ * Derive a stable seed from a string, e.g. a pattern id
+ */
+export function seedFromString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Draw a fresh seed
+ */
+export function createSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
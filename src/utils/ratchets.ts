@@ -0,0 +1,40 @@
+// Ratchet expansion - splits one step into evenly spaced sub-hits
+
+import { Ratchet } from '../types/pattern';
+
+export const MIN_RATCHET_COUNT = 2;
+export const MAX_RATCHET_COUNT = 8;
+export const MAX_PITCH_RAMP = 12; // Semitones
+
+export interface RatchetHit {
+  offset: number; // Seconds after the step time
+  velocityScale: number; // 0-1 multiplier for the step velocity
+  pitchScale: number; // Frequency multiplier for the pitch parameter
+}
+
+/**
+ * Expand a step into its hits. Steps without a ratchet give a single hit.
+ */
+export function expandRatchet(ratchet: Ratchet | undefined, stepDuration: number): RatchetHit[] {
+  if (!ratchet || ratchet.count < MIN_RATCHET_COUNT) {
+    return [{ offset: 0, velocityScale: 1, pitchScale: 1 }];
+  }
+
+  const count = Math.min(MAX_RATCHET_COUNT, Math.round(ratchet.count));
+
+  return Array.from({ length: count }, (_, i) => {
+    // Position across the ratchet, 0 on the first hit and 1 on the last
+    const position = i / (count - 1);
+
+    const velocityScale =
+      ratchet.velocityRamp === 'up' ? (i + 1) / count :
+      ratchet.velocityRamp === 'down' ? (count - i) / count :
+      1;
+
+    return {
+      offset: (stepDuration * i) / count,
+      velocityScale,
+      pitchScale: Math.pow(2, (ratchet.pitchRamp * position) / 12),
+    };
+  });
+}
@@ -0,0 +1,34 @@
+// Song helpers - resolving song entries against the pattern library
+
+import { ArrangementEntry, Pattern, Song } from '../types/pattern';
+import { normalizePattern } from './patternDefaults';
+
+export const MIN_SONG_REPEATS = 1;
+export const MAX_SONG_REPEATS = 64;
+
+/**
+ * Create an empty song
+ */
+export function createEmptySong(): Song {
+  return {
+    id: crypto.randomUUID(),
+    name: 'New Song',
+    entries: [],
+    created: Date.now(),
+    version: 1,
+  };
+}
+
+/**
+ * Resolve a song's entries to playable patterns.
+ * Entries whose pattern was deleted from the library are skipped.
+ */
+export function buildArrangement(song: Song, patterns: Pattern[]): ArrangementEntry[] {
+  const byId = new Map(patterns.map(pattern => [pattern.id, pattern]));
+
+  return song.entries.flatMap(entry => {
+    const pattern = byId.get(entry.patternId);
+    if (!pattern) return [];
+    return [{ entryId: entry.id, pattern: normalizePattern(pattern), repeats: entry.repeats }];
+  });
+}
@@ -0,0 +1,104 @@
+// Style model - per-track, per-step hit statistics learned from saved patterns
+
+import { Pattern } from '../types/pattern';
+
+export interface TrackModel {
+  hitProbability: number[]; // Chance each step is active (0-1)
+  velocity: number[]; // Mean velocity of active steps (0-127)
+  density: number; // Mean share of active steps
+}
+
+export interface StyleModel {
+  tracks: TrackModel[]; // By track index
+  sourceCount: number;
+}
+
+export interface StyleOptions {
+  genre: string | null; // Learn from this genre only, or the whole library
+  density: number; // 0-2, multiplies the learned hit rate
+  complexity: number; // 0-1, from the model's strongest steps only to flatter, busier placement
+  adherence: number; // 0-1, how closely hits follow the model vs. spread at random
+}
+
+export const DEFAULT_STYLE_OPTIONS: StyleOptions = {
+  genre: null,
+  density: 1,
+  complexity: 0.5,
+  adherence: 0.8,
+};
+
+/**
+ * Saved patterns to learn from, optionally limited to a genre
+ */
+export function selectSourcePatterns(patterns: Pattern[], genre: string | null): Pattern[] {
+  if (!genre) return patterns;
+  const wanted = genre.trim().toLowerCase();
+  return patterns.filter(pattern => pattern.genre?.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Genres tagged across the library, sorted
+ */
+export function getLibraryGenres(patterns: Pattern[]): string[] {
+  const genres = new Set(
+    patterns.map(pattern => pattern.genre?.trim()).filter((genre): genre is string => !!genre)
+  );
+  return [...genres].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Learn per-step statistics for each track index at the given resolution.
+ * Source tracks of other lengths are sampled at the same relative position.
+ */
+export function buildStyleModel(patterns: Pattern[], trackLengths: number[]): StyleModel {
+  const tracks = trackLengths.map((steps, trackIndex) => {
+    const hits = new Array<number>(steps).fill(0);
+    const velocitySums = new Array<number>(steps).fill(0);
+    let samples = 0;
+    let activeTotal = 0;
+
+    patterns.forEach(pattern => {
+      const source = pattern.tracks[trackIndex];
+      if (!source) return;
+
+      const sourceLength = source.length ?? pattern.steps;
+      samples++;
+
+      for (let i = 0; i < steps; i++) {
+        const step = source.steps[Math.floor((i * sourceLength) / steps)];
+        if (step?.active) {
+          hits[i]++;
+          velocitySums[i] += step.velocity;
+          activeTotal++;
+        }
+      }
+    });
+
+    return {
+      hitProbability: hits.map(count => (samples > 0 ? count / samples : 0)),
+      velocity: velocitySums.map((sum, i) => (hits[i] > 0 ? sum / hits[i] : 100)),
+      density: samples > 0 ? activeTotal / (samples * steps) : 0,
+    };
+  });
+
+  return { tracks, sourceCount: patterns.length };
+}
+
+/**
+ * Shape a track model's step probabilities by the style options
+ */
+export function getStepProbabilities(model: TrackModel, options: StyleOptions): number[] {
+  // Low complexity sharpens towards the strongest steps, high complexity flattens
+  const exponent = 3 - options.complexity * 2.5;
+  const shaped = model.hitProbability.map(p => Math.pow(p, exponent));
+
+  // Keep the learned density after shaping
+  const shapedMean = shaped.reduce((sum, p) => sum + p, 0) / Math.max(1, shaped.length);
+  const scale = shapedMean > 0 ? model.density / shapedMean : 0;
+
+  return shaped.map(p => {
+    const followed = p * scale;
+    const blended = options.adherence * followed + (1 - options.adherence) * model.density;
+    return Math.max(0, Math.min(1, blended * options.density));
+  });
+}
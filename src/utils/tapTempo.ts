@@ -0,0 +1,23 @@
+// Tap tempo - averages the intervals between recent taps
+
+export const MAX_TAPS = 6; // Taps kept for the average
+export const TAP_RESET_MS = 2000; // A longer pause starts a new tempo
+
+/**
+ * Add a tap (ms timestamp) to the recent taps, starting over after a pause
+ */
+export function addTap(taps: number[], now: number): number[] {
+  const last = taps[taps.length - 1];
+  const recent = last !== undefined && now - last < TAP_RESET_MS ? taps : [];
+  return [...recent, now].slice(-MAX_TAPS);
+}
+
+/**
+ * BPM from the average tap interval, or null until there are two taps
+ */
+export function getTapBpm(taps: number[]): number | null {
+  if (taps.length < 2) return null;
+
+  const averageInterval = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+  return Math.round(60000 / averageInterval);
+}
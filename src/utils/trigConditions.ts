@@ -0,0 +1,76 @@
+// Conditional trig evaluation, labels and editor presets
+
+import { TrigCondition } from '../types/pattern';
+
+export interface ConditionContext {
+  loop: number; // Zero-based loop count of the track
+  fill: boolean; // Fill mode state
+  previous: boolean; // Result of the previous conditional step on the track
+}
+
+/**
+ * Evaluate a trig condition
+ */
+export function evaluateCondition(condition: TrigCondition, context: ConditionContext): boolean {
+  switch (condition.type) {
+    case 'ratio':
+      return context.loop % condition.of === condition.play - 1;
+    case 'fill':
+      return context.fill;
+    case 'notFill':
+      return !context.fill;
+    case 'pre':
+      return context.previous;
+    case 'notPre':
+      return !context.previous;
+    case 'first':
+      return context.loop === 0;
+    case 'notFirst':
+      return context.loop > 0;
+  }
+}
+
+/**
+ * Whether a condition's result counts as the "previous" result for PRE.
+ * PRE conditions only read the flag, they never update it.
+ */
+export function updatesPreviousCondition(condition: TrigCondition): boolean {
+  return condition.type !== 'pre' && condition.type !== 'notPre';
+}
+
+/**
+ * Short display label, e.g. "3:4" or "!FILL"
+ */
+export function formatCondition(condition: TrigCondition): string {
+  switch (condition.type) {
+    case 'ratio':
+      return `${condition.play}:${condition.of}`;
+    case 'fill':
+      return 'FILL';
+    case 'notFill':
+      return '!FILL';
+    case 'pre':
+      return 'PRE';
+    case 'notPre':
+      return '!PRE';
+    case 'first':
+      return '1ST';
+    case 'notFirst':
+      return '!1ST';
+  }
+}
+
+/**
+ * All conditions offered by the step editor
+ */
+export const CONDITION_PRESETS: TrigCondition[] = [
+  { type: 'fill' },
+  { type: 'notFill' },
+  { type: 'pre' },
+  { type: 'notPre' },
+  { type: 'first' },
+  { type: 'notFirst' },
+  ...Array.from({ length: 7 }, (_, i) => i + 2).flatMap(of =>
+    Array.from({ length: of }, (_, i): TrigCondition => ({ type: 'ratio', play: i + 1, of }))
+  ),
+];